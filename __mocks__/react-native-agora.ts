@@ -0,0 +1,70 @@
+import type { IRtcEngineEventHandler } from 'react-native-agora';
+
+type Agora = typeof import('react-native-agora');
+
+// The enums are plain JavaScript, only the engine is native
+export const {
+  ChannelProfileType,
+  ClientRoleType,
+  ConnectionChangedReasonType,
+  ConnectionStateType,
+  DegradationPreference,
+  ErrorCodeType,
+  LastmileProbeResultState,
+  LocalAudioStreamState,
+  LocalVideoStreamReason,
+  LocalVideoStreamState,
+  QualityType,
+  RenewTokenErrorCode,
+} = jest.requireActual<Agora>('react-native-agora/lib/commonjs/AgoraBase');
+export const { VideoSourceType } = jest.requireActual<Agora>('react-native-agora/lib/commonjs/AgoraMediaBase');
+
+/**
+ * Jest mock of the RTC engine. Every method succeeds, and joining or leaving a channel calls the handlers
+ * like the native engine would. Call `emit` to simulate other callbacks, e.g. the agent joining.
+ */
+export class FakeRtcEngine {
+  handlers = new Set<IRtcEngineEventHandler>();
+
+  initialize = jest.fn(() => 0);
+  release = jest.fn();
+  registerEventHandler = jest.fn((handler: IRtcEngineEventHandler) => {
+    this.handlers.add(handler);
+    return true;
+  });
+  unregisterEventHandler = jest.fn((handler: IRtcEngineEventHandler) => this.handlers.delete(handler));
+  joinChannel = jest.fn((token: string, channelId: string, uid: number) => {
+    setTimeout(() => this.emit('onJoinChannelSuccess', { channelId, localUid: uid }, 0), 0);
+    return 0;
+  });
+  leaveChannel = jest.fn(() => {
+    this.emit('onLeaveChannel', {}, {});
+    return 0;
+  });
+  renewToken = jest.fn(() => 0);
+  enableVideo = jest.fn(() => 0);
+  enableLocalAudio = jest.fn(() => 0);
+  muteLocalVideoStream = jest.fn(() => 0);
+  setVideoEncoderConfiguration = jest.fn(() => 0);
+  startPreview = jest.fn(() => 0);
+  stopPreview = jest.fn(() => 0);
+  switchCamera = jest.fn(() => 0);
+  enableAudioVolumeIndication = jest.fn(() => 0);
+  startLastmileProbeTest = jest.fn(() => 0);
+  stopLastmileProbeTest = jest.fn(() => 0);
+  startEchoTest = jest.fn(() => 0);
+  stopEchoTest = jest.fn(() => 0);
+
+  /**
+   * Calls a callback on every registered handler.
+   * @param event - The callback, e.g. `onUserJoined`.
+   * @param args - The callback arguments.
+   */
+  emit<K extends keyof IRtcEngineEventHandler>(event: K, ...args: Parameters<NonNullable<IRtcEngineEventHandler[K]>>) {
+    this.handlers.forEach((handler) => (handler[event] as ((...a: typeof args) => void) | undefined)?.(...args));
+  }
+}
+
+export const createAgoraRtcEngine = jest.fn(() => new FakeRtcEngine());
+
+export const RtcSurfaceView = () => null;
@@ -0,0 +1,4 @@
+/**
+ * Jest mock of react-native-public-ip, resolving to a documentation address.
+ */
+export default jest.fn(async () => '203.0.113.10');
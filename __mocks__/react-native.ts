@@ -0,0 +1,29 @@
+/**
+ * Jest mock of the react-native APIs used by the SDK. Permissions are granted on Android by default.
+ */
+export const Platform = {
+  OS: 'android' as 'android' | 'ios',
+  select: <T>(options: { android?: T; ios?: T; default?: T }) => options.android ?? options.default,
+};
+
+const RESULTS = {
+  GRANTED: 'granted',
+  DENIED: 'denied',
+  NEVER_ASK_AGAIN: 'never_ask_again',
+};
+
+export const PermissionsAndroid = {
+  PERMISSIONS: {
+    RECORD_AUDIO: 'android.permission.RECORD_AUDIO',
+    CAMERA: 'android.permission.CAMERA',
+  },
+  RESULTS,
+  check: jest.fn(async (permission: string) => true),
+  requestMultiple: jest.fn(async (permissions: string[]) =>
+    Object.fromEntries(permissions.map((permission) => [permission, RESULTS.GRANTED]))
+  ),
+};
+
+export const Linking = {
+  openSettings: jest.fn(async () => {}),
+};
@@ -0,0 +1,141 @@
+import { createAgoraRtcEngine } from 'react-native-agora';
+import type { FakeRtcEngine } from '../../__mocks__/react-native-agora';
+import {
+  ConnectionState,
+  ContractAction,
+  PermissionStatus,
+  VpageBusinessError,
+  createAPIService,
+  createSessionStore,
+  createSocketService,
+  createVekycService,
+} from '../index';
+import { createFakeStompBroker, createFakeVekycBackend, fail } from '../testing';
+
+/**
+ * Waits until a condition holds, checking every few milliseconds.
+ * @param condition - The condition to wait for.
+ * @param timeout - (Optional) The maximum time to wait in milliseconds. Default is 2000.
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Gets the RTC engine created by the last `initialize`.
+ * @returns The mocked engine.
+ */
+function lastEngine() {
+  const results = jest.mocked(createAgoraRtcEngine).mock.results;
+  return results[results.length - 1].value as unknown as FakeRtcEngine;
+}
+
+describe('README onboarding flow', () => {
+  const appointmentId = 'appointment-1';
+  const apiToken = 'api-token';
+
+  let backend: ReturnType<typeof createFakeVekycBackend>;
+  let broker: ReturnType<typeof createFakeStompBroker>;
+  let apiService: ReturnType<typeof createAPIService>;
+  let socketService: ReturnType<typeof createSocketService>;
+  let vekycService: ReturnType<typeof createVekycService>;
+
+  beforeEach(() => {
+    backend = createFakeVekycBackend();
+    broker = createFakeStompBroker();
+    apiService = createAPIService(backend.apiClientOptions({ token: apiToken }));
+    socketService = createSocketService();
+    vekycService = createVekycService();
+  });
+
+  it('creates a meeting, connects, joins the call, hooks the session and closes it', async () => {
+    // Step 2: Create a meeting
+    const customerIp = await apiService.getIPAddress();
+    const res = await apiService.createMeeting(appointmentId, customerIp);
+    const token = res.data!.code;
+    const channelName = res.data!.key;
+    const localUid = Number(res.data!.subId);
+    expect(backend.getRequests('CREATE_MEETING')[0]).toMatchObject({ ids: { id: appointmentId }, headers: { Authorization: `Bearer ${apiToken}` } });
+
+    const sessionStore = createSessionStore();
+    await sessionStore.saveMeeting(res.data!);
+
+    // Step 3: Request permissions
+    const permissions = await vekycService.requestPermissions();
+    expect(permissions).toEqual({ microphone: PermissionStatus.GRANTED, camera: PermissionStatus.GRANTED });
+
+    // Step 4: Connect to the WebSocket server
+    socketService.initialize('https://vekyc.test', channelName, apiToken, undefined, { transport: broker.transport });
+    socketService.subscribeSessionNotifyTopic();
+    socketService.subscribeSocketNotifyTopic();
+    socketService.subscribeSocketHealthTopic();
+    const onConnect = jest.fn();
+    socketService.registerEventHandler({ onConnect, onDisconnect: jest.fn() });
+    socketService.connect(socketService.getDeviceInfo());
+    await waitFor(() => socketService.getConnectionState() === ConnectionState.CONNECTED);
+    expect(onConnect).toHaveBeenCalled();
+    expect(broker.getSessions()[0].connectHeaders).toMatchObject({ token: apiToken });
+    expect(broker.getSubscriptions()).toEqual(
+      expect.arrayContaining([`/user/${channelName}/notify`, `/user/${socketService.getSocketId()}/notify`])
+    );
+
+    // Step 5: Join the video call
+    vekycService.initialize('app-id');
+    const engine = lastEngine();
+    const callStates: boolean[] = [];
+    vekycService.subscribeCallState((state) => callStates.push(state.joined));
+    const onJoinChannelSuccess = jest.fn();
+    vekycService.addEventHandler({ onJoinChannelSuccess });
+    vekycService.linkSocketService(socketService);
+    expect(await vekycService.joinChannel(token, channelName, localUid, {})).toBe(0);
+    await waitFor(() => vekycService.getCallState().joined);
+    expect(onJoinChannelSuccess).toHaveBeenCalled();
+    expect(callStates).toContain(true);
+    expect(engine.joinChannel).toHaveBeenCalledWith(token, channelName, localUid, expect.anything());
+
+    engine.emit('onUserJoined', { channelId: channelName, localUid }, 2002, 0);
+    expect(vekycService.getCallState().remoteUid).toBe(2002);
+
+    engine.emit('onNetworkQuality', { channelId: channelName, localUid }, 0, 5, 5);
+    await waitFor(() => broker.getSent('/app/network').length > 0);
+
+    // Step 6: Hook a session
+    await apiService.hook(channelName, channelName);
+    socketService.startHealthCheck({ interval: 20 });
+    await waitFor(() => socketService.getHeartbeatStats().latency !== undefined);
+
+    const onAgentEndCall = jest.fn();
+    socketService.notifications.on(ContractAction.AGENT_END_CALL, onAgentEndCall);
+    broker.notifySession(channelName, { action: ContractAction.AGENT_END_CALL });
+    await waitFor(() => onAgentEndCall.mock.calls.length > 0);
+    expect(onAgentEndCall.mock.calls[0][0]).toMatchObject({ action: ContractAction.AGENT_END_CALL });
+
+    // Step 7: Close call
+    await apiService.closeVideo(channelName);
+    expect(backend.getRequests().map((req) => req.route)).toEqual(['CREATE_MEETING', 'HOOK', 'CLOSE_VIDEO']);
+
+    // Step 8: Cleanup
+    vekycService.cleanup();
+    await socketService.cleanup();
+    await sessionStore.wipe();
+    expect(engine.release).toHaveBeenCalled();
+    expect(socketService.getConnectionState()).toBe(ConnectionState.DISCONNECTED);
+    expect(broker.getSessions()).toHaveLength(0);
+    expect(await sessionStore.get('rtcToken')).toBeUndefined();
+  });
+
+  it('rejects the hook with a business error when no agent is available', async () => {
+    backend.once('HOOK', { body: fail('AGENT_BUSY', 'No agent available') });
+
+    const error = await apiService.hook('channel-1', 'channel-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(VpageBusinessError);
+    expect(error).toMatchObject({ errorCode: 'AGENT_BUSY', message: 'No agent available' });
+  });
+});
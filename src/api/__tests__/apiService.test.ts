@@ -0,0 +1,22 @@
+import { createAPIService } from '../apiService';
+
+describe('createAPIService', () => {
+  const globals = globalThis as { __DEV__?: boolean };
+
+  beforeEach(() => {
+    globals.__DEV__ = true;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete globals.__DEV__;
+    jest.restoreAllMocks();
+  });
+
+  it('resolves the environment once, warning once about the UAT fallback', () => {
+    createAPIService({ environment: {} });
+
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalledWith('No environment configured, falling back to UAT.');
+  });
+});
@@ -1,22 +1,52 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import { APIClientOptions } from '../types/APIClientOptions';
+import { TokenManager } from './tokenManager';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _unauthorizedRetry?: boolean };
 
 class APIClient {
   private client: AxiosInstance;
+  private tokenManager: TokenManager;
 
-  constructor(options?: APIClientOptions) {
+  constructor(baseURL: string, options?: APIClientOptions) {
     this.client = axios.create({
-      baseURL: options?.baseURL || 'https://vekyc-gateway-server-uat.mobifi.vn',
+      baseURL,
       timeout: options?.timeout || 30000,
       headers: options?.headers || { 'Content-Type': 'application/json' },
+      ...(options?.adapter && { adapter: options.adapter }),
+    });
+    this.tokenManager = new TokenManager({
+      token: options?.token,
+      tokenProvider: options?.tokenProvider,
+      onUnauthorized: options?.onUnauthorized,
     });
 
-    if (options?.token) {
-      this.client.interceptors.request.use(config => {
-        config.headers.Authorization = `Bearer ${options?.token}`;
+    if (options?.token || options?.tokenProvider || options?.onUnauthorized) {
+      this.client.interceptors.request.use(async config => {
+        const token = await this.tokenManager.getToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
         return config;
       });
     }
+
+    if (options?.onUnauthorized) {
+      // Requests failing with 401 share one refresh, then are replayed once with the new token
+      this.client.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        if (error.response?.status !== 401 || !config || config._unauthorizedRetry) {
+          throw error;
+        }
+        config._unauthorizedRetry = true;
+        const token = await this.tokenManager.refresh();
+        if (!token) {
+          throw error;
+        }
+        config.headers.Authorization = `Bearer ${token}`;
+        return this.client.request(config);
+      });
+    }
   }
 
   getClient() {
@@ -25,6 +55,6 @@ class APIClient {
 }
 
 // Factory function to create an instance
-export function createAPIClient(options?: APIClientOptions) {
-  return new APIClient(options).getClient();
+export function createAPIClient(baseURL: string, options?: APIClientOptions) {
+  return new APIClient(baseURL, options).getClient();
 }
@@ -1,7 +1,12 @@
-import { AxiosInstance } from 'axios';
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { createAPIClient } from './apiClient';
-import { environment } from '../utils/environment';
-import { APIClientOptions, ApiResponse, CheckSelfKycDto, ConfigDto, ContractDto, ContractURLDto, CreateMeetingDto, ResendOTPDto, SubmitDto, VerifyOTPDto } from '../types';
+import { Endpoints, resolveEnvironment } from '../utils/environment';
+import { isRetryable, getRetryDelay, resolveRetryPolicy, sleep } from './retry';
+import { generateId } from '../utils/id';
+import { APIClientOptions, ApiResponse, CheckSelfKycDto, ConfigDto, ContractDto, ContractURLDto, CreateMeetingDto, RequestOptions, ResendOTPDto, RetryPolicy, SubmitDto, VerifyOTPDto } from '../types';
+import { VpageAbortError, VpageBusinessError, VpageTimeoutError, VpageValidationError, toVpageError } from '../errors';
+import { CheckSelfKycDtoSchema, ConfigDtoSchema, ContractDtoSchema, ContractURLDtoSchema, CreateMeetingDtoSchema, ResendOTPDtoSchema, Schema, SubmitDtoSchema, ValidationMode, VerifyOTPDtoSchema, validate } from '../validation';
+import { array } from '../validation/schema';
 import publicIP from "react-native-public-ip";
 
 export enum ContractAction {
@@ -27,35 +32,164 @@ export enum ContractAction {
   OTP_BYPASS = 'OTP_BYPASS',
 }
 
+export type SaveLogOptions = RequestOptions & {
+  /** Client-side sequence number of the log entry. */
+  sequence?: number;
+  /** Client-side time the action happened, in milliseconds. */
+  timestamp?: number;
+};
+
 /**
  * APIService provides methods to interact with the backend API.
  * It includes functionality for making GET and POST requests, handling dynamic path parameters,
  * and performing various operations such as fetching configuration, creating meetings, verifying OTPs, and more.
+ *
+ * Every public method resolves to the `ApiResponse` when the request succeeds with `status: true`,
+ * and rejects with a `VpageError` otherwise (network, timeout, HTTP or business failure).
  */
 class APIService {
   private client: AxiosInstance;
+  private endpoints: Endpoints;
+  private retryPolicy?: RetryPolicy;
+  private validationMode: ValidationMode;
+  private controllers = new Set<AbortController>();
 
   /**
    * Creates an instance of APIService.
    * @param client - An Axios instance for making HTTP requests.
+   * @param endpoints - The endpoint paths of the environment.
+   * @param retryPolicy - (Optional) The default retry policy for every request.
+   * @param validationMode - (Optional) How responses are checked against their DTO. Default is `LENIENT`.
    */
-  constructor(client: AxiosInstance) {
+  constructor(client: AxiosInstance, endpoints: Endpoints, retryPolicy?: RetryPolicy, validationMode = ValidationMode.LENIENT) {
     this.client = client;
+    this.endpoints = endpoints;
+    this.retryPolicy = retryPolicy;
+    this.validationMode = validationMode;
+  }
+
+  /**
+   * Checks the business status of a response.
+   * @param data - The response body.
+   * @returns The response body typed as an `ApiResponse`.
+   * @throws {VpageBusinessError} If the response carries `status: false`.
+   */
+  private unwrap<T>(data: unknown) {
+    const res = data as ApiResponse<T>;
+    if (res && res.status === false) {
+      throw new VpageBusinessError(res);
+    }
+    return res;
+  }
+
+  /**
+   * Checks the `data` of a response against its DTO schema.
+   * @param endpoint - The endpoint the response came from, used in messages.
+   * @param res - The response to check.
+   * @param schema - (Optional) The DTO schema. Responses without schema or without data are not checked.
+   * @returns The response, unchanged.
+   * @throws {VpageValidationError} If the data does not match in `STRICT` mode.
+   */
+  private check<T>(endpoint: string, res: ApiResponse<T>, schema?: Schema) {
+    if (!schema || this.validationMode === ValidationMode.OFF || res?.data === undefined || res?.data === null) {
+      return res;
+    }
+    const issues = validate(schema, res.data, 'data');
+    if (issues.length > 0) {
+      const error = new VpageValidationError(`Unexpected response from ${endpoint}`, issues);
+      if (this.validationMode === ValidationMode.STRICT) {
+        throw error;
+      }
+      console.warn(error.message);
+    }
+    return res;
+  }
+
+  /**
+   * Sends a request, retrying it according to the resolved retry policy.
+   * POST requests carry an `Idempotency-Key` header that stays the same across retries,
+   * so the gateway can discard duplicates of a request that did reach it.
+   * The call is cancelled by `options.signal` or `abortAll()`, including while waiting for a retry.
+   * @param config - The Axios request configuration.
+   * @param options - (Optional) Per-call request options.
+   * @param schema - (Optional) The DTO schema of the response data.
+   * @returns A promise resolving to the response data.
+   * @throws {VpageError} If the last attempt fails, the response carries `status: false`
+   * or the response data does not match its schema in `STRICT` mode.
+   */
+  private async request<T>(config: AxiosRequestConfig, options: RequestOptions = {}, schema?: Schema) {
+    const policy = resolveRetryPolicy(this.retryPolicy, options.retry);
+    const headers: Record<string, string> = {};
+    if (config.method === 'post') {
+      headers['Idempotency-Key'] = options.idempotencyKey || generateId();
+    }
+    const { controller, release } = this.track(options.signal);
+    try {
+      for (let attempt = 1; ; attempt++) {
+        if (controller.signal.aborted) {
+          throw new VpageAbortError();
+        }
+        try {
+          const res = await this.client.request({
+            ...config,
+            headers: { ...config.headers, ...headers },
+            signal: controller.signal,
+            ...(options.timeout !== undefined && { timeout: options.timeout }),
+          });
+          return this.check(config.url || '', this.unwrap<T>(res.data), schema);
+        } catch (error) {
+          const vpageError = controller.signal.aborted ? new VpageAbortError(undefined, error) : toVpageError(error);
+          if (attempt >= policy.maxAttempts || !isRetryable(vpageError, policy)) {
+            throw vpageError;
+          }
+          await sleep(getRetryDelay(policy, attempt), controller.signal);
+        }
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Creates an abort controller for a call, linked to the caller's signal and tracked by `abortAll()`.
+   * @param signal - (Optional) The signal passed by the caller.
+   * @returns The controller, and a function to call once the call settles.
+   */
+  private track(signal?: AbortSignal) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort);
+    this.controllers.add(controller);
+    const release = () => {
+      signal?.removeEventListener('abort', onAbort);
+      this.controllers.delete(controller);
+    };
+    return { controller, release };
+  }
+
+  /**
+   * Cancels every call in progress, e.g. when tearing down the session.
+   * The cancelled calls reject with a `VpageAbortError`.
+   */
+  abortAll() {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
   }
 
   /**
    * Sends a GET request to the specified endpoint with optional query parameters.
    * @param endpoint - The API endpoint to send the GET request to.
    * @param params - (Optional) Query parameters for the request.
+   * @param options - (Optional) Per-call request options.
+   * @param schema - (Optional) The DTO schema of the response data.
    * @returns A promise resolving to the response data.
+   * @throws {VpageError} If the request fails or the response carries `status: false`.
    */
-  private async get(endpoint: string, params?: Record<string, any>) {
-    try {
-      const res = await this.client.get(endpoint, { params });
-      return res.data as unknown;
-    } catch (error) {
-      console.error(`GET ${endpoint} failed:`, error);
-    }
+  private async get<T>(endpoint: string, params?: Record<string, any>, options?: RequestOptions, schema?: Schema) {
+    return this.request<T>({ method: 'get', url: endpoint, params }, options, schema);
   }
 
   /**
@@ -63,31 +197,31 @@ class APIService {
    * @param endpoint - The API endpoint with placeholders for dynamic parameters.
    * @param ids - An object containing the dynamic parameters to replace in the endpoint.
    * @param params - (Optional) Query parameters for the request.
+   * @param options - (Optional) Per-call request options.
+   * @param schema - (Optional) The DTO schema of the response data.
    * @returns A promise resolving to the response data.
    */
-  private async getChildren(endpoint: string, ids: Record<string, any>, params?: Record<string, any>) {
+  private async getChildren<T>(endpoint: string, ids: Record<string, any>, params?: Record<string, any>, options?: RequestOptions, schema?: Schema) {
     const keys = Object.keys(ids);
     for (const key of keys) {
       if (endpoint.toString().includes(':' + key)) {
         endpoint = endpoint.toString().replace(':' + key, ids[key]);
       }
     }
-    return this.get(endpoint, params);
+    return this.get<T>(endpoint, params, options, schema);
   }
 
   /**
    * Sends a POST request to the specified endpoint with optional payload data.
    * @param endpoint - The API endpoint to send the POST request to.
    * @param data - (Optional) The payload data for the request.
+   * @param options - (Optional) Per-call request options.
+   * @param schema - (Optional) The DTO schema of the response data.
    * @returns A promise resolving to the response data.
+   * @throws {VpageError} If the request fails or the response carries `status: false`.
    */
-  private async post(endpoint: string, data?: Record<string, any>) {
-    try {
-      const res = await this.client.post(endpoint, data);
-      return res.data as unknown;
-    } catch (error) {
-      console.error(`POST ${endpoint} failed:`, error);
-    }
+  private async post<T>(endpoint: string, data?: Record<string, any>, options?: RequestOptions, schema?: Schema) {
+    return this.request<T>({ method: 'post', url: endpoint, data }, options, schema);
   }
 
   /**
@@ -95,47 +229,59 @@ class APIService {
    * @param endpoint - The API endpoint with placeholders for dynamic parameters.
    * @param ids - An object containing the dynamic parameters to replace in the endpoint.
    * @param data - (Optional) The payload data for the request.
+   * @param options - (Optional) Per-call request options.
+   * @param schema - (Optional) The DTO schema of the response data.
    * @returns A promise resolving to the response data.
    */
-  private async postChildren(endpoint: string, ids: Record<string, any>, data?: Record<string, any>) {
+  private async postChildren<T>(endpoint: string, ids: Record<string, any>, data?: Record<string, any>, options?: RequestOptions, schema?: Schema) {
     const keys = Object.keys(ids);
     for (const key of keys) {
       if (endpoint.toString().includes(':' + key)) {
         endpoint = endpoint.toString().replace(':' + key, ids[key]);
       }
     }
-    return this.post(endpoint, data);
+    return this.post<T>(endpoint, data, options, schema);
   }
 
   /**
    * Fetches configuration information for a given appointment.
    * @param appointmentId - The ID of the appointment.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the configuration information.
    */
-  async getConfigInfo(appointmentId: string) {
-    try {
-      const params = { appointment_id: appointmentId };
-      const res = await this.get(environment.GET_CONFIG_INFO, params);
-      return res as ApiResponse<ConfigDto>;
-    } catch (error) {
-      console.error('Error fetching info:', error);
-    }
+  async getConfigInfo(appointmentId: string, options?: RequestOptions) {
+    const params = { appointment_id: appointmentId };
+    return this.get<ConfigDto>(this.endpoints.GET_CONFIG_INFO, params, options, ConfigDtoSchema);
   }
 
   /**
    * Retrieves the public IP address of the device using the `react-native-public-ip` library.
    * @param timeoutMs - (Optional) The maximum time (in milliseconds) to wait for the IP address before timing out. Default is 3000ms.
-   * @returns A promise resolving to the public IP address as a string, or `undefined` if an error occurs.
+   * @param options - (Optional) Per-call options. `signal` cancels the lookup, `timeout` overrides `timeoutMs`.
+   * @returns A promise resolving to the public IP address as a string.
+   * @throws {VpageTimeoutError} If the IP address is not retrieved in time.
+   * @throws {VpageAbortError} If the lookup is cancelled.
    */
-  async getIPAddress(timeoutMs = 3000) {
+  async getIPAddress(timeoutMs = 3000, options: Pick<RequestOptions, 'signal' | 'timeout'> = {}) {
+    const { controller, release } = this.track(options.signal);
+    let timer: ReturnType<typeof setTimeout> | undefined;
     try {
-      const timeout = new Promise<string>((_, reject) =>
-        setTimeout(() => reject(new Error("Timeout")), timeoutMs)
-      );
-      const ip = await Promise.race([publicIP(), timeout]);
+      const timeout = new Promise<string>((_, reject) => {
+        timer = setTimeout(() => reject(new VpageTimeoutError('Timeout fetching public IP')), options.timeout ?? timeoutMs);
+      });
+      const aborted = new Promise<string>((_, reject) => {
+        if (controller.signal.aborted) {
+          reject(new VpageAbortError());
+        }
+        controller.signal.addEventListener('abort', () => reject(new VpageAbortError()), { once: true });
+      });
+      const ip = await Promise.race([publicIP(), timeout, aborted]);
       return ip;
     } catch (error) {
-      console.error('Error fetching public IP:', error);
+      throw toVpageError(error);
+    } finally {
+      clearTimeout(timer);
+      release();
     }
   };
 
@@ -144,17 +290,13 @@ class APIService {
    * @param appointmentId - The ID of the appointment.
    * @param customerIp - The customer's public IP address.
    * @param agentId - (Optional) The ID of the agent.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the meeting creation response.
    */
-  async createMeeting(appointmentId: string, customerIp: string, agentId = null) {
-    try {
-      const ids = { id: appointmentId };
-      const payload: any = { customerIp, agent_id: agentId };
-      const res = await this.postChildren(environment.CREATE_MEETING, ids, payload);
-      return res as ApiResponse<CreateMeetingDto>;
-    } catch (error) {
-      console.error('Error creating meeting:', error);
-    }
+  async createMeeting(appointmentId: string, customerIp: string, agentId = null, options?: RequestOptions) {
+    const ids = { id: appointmentId };
+    const payload: any = { customerIp, agent_id: agentId };
+    return this.postChildren<CreateMeetingDto>(this.endpoints.CREATE_MEETING, ids, payload, options, CreateMeetingDtoSchema);
   }
 
   /**
@@ -162,32 +304,67 @@ class APIService {
    * @param contractAction - The contract action to be logged.
    * @param detail - (Optional) Additional details to include in the log.
    * @param sessionKey - (Optional) The session key associated with the log.
+   * @param options - (Optional) Per-call request options, and the client-side `sequence` and `timestamp` of the entry.
    * @returns A promise resolving to the response data of the log save operation.
    */
-  async saveLog(contractAction: ContractAction, detail: any = null, sessionKey: any = "") {
-    try {
-      const payload = { actionHistory: contractAction, detail, sessionKey };
-      const res = await this.post(environment.SAVE_LOG, payload);
-      return res as ApiResponse<any>;
-    } catch (error) {
-      console.error('Error saving log:', error);
-    }
+  async saveLog(contractAction: ContractAction, detail: any = null, sessionKey: any = "", options?: SaveLogOptions) {
+    const { sequence, timestamp, ...requestOptions } = options || {};
+    const payload = {
+      actionHistory: contractAction,
+      detail,
+      sessionKey,
+      ...(sequence !== undefined && { sequence }),
+      ...(timestamp !== undefined && { timestamp }),
+    };
+    return this.post<any>(this.endpoints.SAVE_LOG, payload, requestOptions);
   }
 
   /**
    * Submits data for a given appointment.
    * @param appointmentId - The ID of the appointment.
    * @param agentId - (Optional) The ID of the agent.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the submission response.
    */
-  async submit(appointmentId: string, agentId = null) {
-    try {
-      const payload: any = { id: appointmentId, agent_id: agentId };
-      const res = await this.post(environment.SUBMIT, payload);
-      return res as ApiResponse<SubmitDto>;
-    } catch (error) {
-      console.error('Error submitting:', error);
-    }
+  async submit(appointmentId: string, agentId = null, options?: RequestOptions) {
+    const payload: any = { id: appointmentId, agent_id: agentId };
+    return this.post<SubmitDto>(this.endpoints.SUBMIT, payload, options, SubmitDtoSchema);
+  }
+
+  /**
+   * Verifies the OTP sent to the customer after submitting an appointment.
+   * @param appointmentId - The ID of the appointment.
+   * @param otp - The OTP entered by the customer.
+   * @param transactionId - The transaction ID returned by `submit` or `resendOtp`.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
+   * @returns A promise resolving to the verification response.
+   */
+  async verifyOtp(appointmentId: string, otp: string, transactionId: string, options?: RequestOptions) {
+    const payload = { id: appointmentId, otp, transactionId };
+    return this.post<VerifyOTPDto>(this.endpoints.VERIFY_OTP, payload, options, VerifyOTPDtoSchema);
+  }
+
+  /**
+   * Requests a new OTP for a given appointment.
+   * @param appointmentId - The ID of the appointment.
+   * @param transactionId - The transaction ID of the current OTP.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
+   * @returns A promise resolving to the resend response.
+   */
+  async resendOtp(appointmentId: string, transactionId: string, options?: RequestOptions) {
+    const payload = { id: appointmentId, transactionId };
+    return this.post<ResendOTPDto>(this.endpoints.RESEND_OTP, payload, options, ResendOTPDtoSchema);
+  }
+
+  /**
+   * Checks whether the customer of a given appointment is allowed to self-KYC.
+   * @param appointmentId - The ID of the appointment.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
+   * @returns A promise resolving to the self-KYC check response.
+   */
+  async checkSelfKyc(appointmentId: string, options?: RequestOptions) {
+    const params = { appointment_id: appointmentId };
+    return this.get<CheckSelfKycDto>(this.endpoints.CHECK_SELF_KYC, params, options, CheckSelfKycDtoSchema);
   }
 
   /**
@@ -195,76 +372,56 @@ class APIService {
    * @param sessionId - The unique identifier of the session.
    * @param sessionKey - The session key associated with the session.
    * @param agentId - (Optional) The unique identifier of the agent.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the response data of the hook operation.
    */
-  async hook(sessionId: string, sessionKey: string, agentId = null) {
-    try {
-      const payload: any = { sessionId, sessionKey, agentId };
-      const res = await this.post(environment.HOOK, payload);
-      return res as ApiResponse<any>;
-    } catch (error) {
-      console.error('Error hooking:', error);
-    }
+  async hook(sessionId: string, sessionKey: string, agentId = null, options?: RequestOptions) {
+    const payload: any = { sessionId, sessionKey, agentId };
+    return this.post<any>(this.endpoints.HOOK, payload, options);
   }
 
   /**
    * Closes a video session for a given session key.
    * @param sessionKey - The session key associated with the video session.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the response data of the video session closure.
    */
-  async closeVideo(sessionKey: string) {
-    try {
-      const payload = { sessionKey, type: 'USER' };
-      const res = await this.post(environment.CLOSE_VIDEO, payload);
-      return res as ApiResponse<any>;
-    } catch (error) {
-      console.error('Error closing video:', error);
-    }
+  async closeVideo(sessionKey: string, options?: RequestOptions) {
+    const payload = { sessionKey, type: 'USER' };
+    return this.post<any>(this.endpoints.CLOSE_VIDEO, payload, options);
   }
 
   /**
    * Retrieves the list of contracts associated with a given session key.
    * @param sessionKey - The session key for the meeting.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the list of contracts.
    */
-  async getContractList(sessionKey: string) {
-    try {
-      const params = { meetingId: sessionKey };
-      const res = await this.get(environment.GET_CONTRACT_LIST, params);
-      return res as ApiResponse<ContractDto[]>;
-    } catch (error) {
-      console.error('Error getting contract list:', error);
-    }
+  async getContractList(sessionKey: string, options?: RequestOptions) {
+    const params = { meetingId: sessionKey };
+    return this.get<ContractDto[]>(this.endpoints.GET_CONTRACT_LIST, params, options, array(ContractDtoSchema));
   }
 
   /**
    * Retrieves the URL of a specific contract associated with a session key.
    * @param sessionKey - The session key for the contract.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the contract URL.
    */
-  async getContractURL(sessionKey: string) {
-    try {
-      const ids = { id: sessionKey };
-      const res = await this.getChildren(environment.GET_CONTRACT_URL, ids);
-      return res as ApiResponse<ContractURLDto>;
-    } catch (error) {
-      console.error('Error getting contract URL:', error);
-    }
+  async getContractURL(sessionKey: string, options?: RequestOptions) {
+    const ids = { id: sessionKey };
+    return this.getChildren<ContractURLDto>(this.endpoints.GET_CONTRACT_URL, ids, undefined, options, ContractURLDtoSchema);
   }
 
   /**
    * Confirms a contract associated with a given session key.
    * @param sessionKey - The session key for the contract.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the confirmation response.
    */
-  async confirmContract(sessionKey: string) {
-    try {
-      const ids = { id: sessionKey };
-      const res = await this.postChildren(environment.CONFIRM_CONTRACT, ids);
-      return res as ApiResponse<any>;
-    } catch (error) {
-      console.error('Error confirming contract:', error);
-    }
+  async confirmContract(sessionKey: string, options?: RequestOptions) {
+    const ids = { id: sessionKey };
+    return this.postChildren<any>(this.endpoints.CONFIRM_CONTRACT, ids, undefined, options);
   }
 
   /**
@@ -273,21 +430,17 @@ class APIService {
    * @param callFeedback - The feedback text for the video call.
    * @param agentRating - The rating for the agent (e.g., 1-5).
    * @param agentFeedback - The feedback text for the agent.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal, a timeout or a retry override.
    * @returns A promise resolving to the response data of the rating operation.
    */
-  async rateCall(callRating: string, callFeedback: string, agentRating: string, agentFeedback: string) {
-    try {
-      const payload = {
-        rating_video_call: callRating,
-        customer_feedback: callFeedback,
-        rating_agent: agentRating,
-        customer_feedback_agent: agentFeedback
-      };
-      const res = await this.post(environment.RATING, payload);
-      return res as ApiResponse<any>;
-    } catch (error) {
-      console.error('Error rating:', error);
-    }
+  async rateCall(callRating: string, callFeedback: string, agentRating: string, agentFeedback: string, options?: RequestOptions) {
+    const payload = {
+      rating_video_call: callRating,
+      customer_feedback: callFeedback,
+      rating_agent: agentRating,
+      customer_feedback_agent: agentFeedback
+    };
+    return this.post<any>(this.endpoints.RATING, payload, options);
   }
 }
 
@@ -297,6 +450,10 @@ class APIService {
  * @returns A new instance of APIService.
  */
 export function createAPIService(options?: APIClientOptions) {
-  const client = createAPIClient(options);
-  return new APIService(client);
+  const env = resolveEnvironment(options);
+  const client = createAPIClient(env.baseURL, options);
+  return new APIService(client, env.endpoints, options?.retry, options?.validation);
 }
+
+// Export for external use
+export type { APIService };
@@ -1 +1,2 @@
 export * from './apiService';
+export * from './otpState';
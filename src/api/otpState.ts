@@ -0,0 +1,129 @@
+import { ResendOTPDto, SubmitDto, VerifyOTPDto } from '../types';
+
+export type OtpSnapshot = {
+  transactionId: string;
+  count: number;
+  numberLimit: number;
+  remainingAttempts: number;
+  remainingSeconds: number;
+  isExpired: boolean;
+  canResend: boolean;
+};
+
+/**
+ * OtpState keeps track of the OTP counters returned by `submit`, `resendOtp` and `verifyOtp`,
+ * so the UI can show the remaining attempts and the resend countdown without re-deriving them.
+ */
+class OtpState {
+  private transactionId = '';
+  private count = 0;
+  private numberLimit = 0;
+  private expiredTime = 0;
+  private clockOffset = 0;
+
+  /**
+   * Updates the state from an OTP related response.
+   * @param dto - The `data` of a `submit`, `resendOtp` or `verifyOtp` response.
+   */
+  update(dto?: Partial<SubmitDto | ResendOTPDto | VerifyOTPDto>) {
+    if (!dto) {
+      return;
+    }
+    if ('transactionId' in dto && dto.transactionId) {
+      this.transactionId = dto.transactionId;
+    }
+    if ('count' in dto && typeof dto.count === 'number') {
+      this.count = dto.count;
+    }
+    if (typeof dto.numberLimit === 'number') {
+      this.numberLimit = dto.numberLimit;
+    }
+    if ('expiredTime' in dto && typeof dto.expiredTime === 'number') {
+      this.expiredTime = dto.expiredTime;
+    }
+    if ('currentTime' in dto && typeof dto.currentTime === 'number') {
+      // Server and device clocks may differ, keep the offset to count down against server time
+      this.clockOffset = dto.currentTime - Date.now();
+    }
+  }
+
+  /**
+   * Gets the transaction ID of the current OTP.
+   * @returns The transaction ID, or an empty string if no OTP has been sent yet.
+   */
+  getTransactionId() {
+    return this.transactionId;
+  }
+
+  /**
+   * Gets the number of OTP sends left before the limit is reached.
+   * @returns The remaining attempts, never negative.
+   */
+  getRemainingAttempts() {
+    return Math.max(this.numberLimit - this.count, 0);
+  }
+
+  /**
+   * Gets the number of seconds until the current OTP expires.
+   * @param now - (Optional) The current device time in milliseconds. Default is `Date.now()`.
+   * @returns The remaining seconds, never negative.
+   */
+  getRemainingSeconds(now = Date.now()) {
+    const serverNow = now + this.clockOffset;
+    return Math.max(Math.ceil((this.expiredTime - serverNow) / 1000), 0);
+  }
+
+  /**
+   * Checks whether the current OTP has expired.
+   * @param now - (Optional) The current device time in milliseconds. Default is `Date.now()`.
+   * @returns True if the OTP has expired, false otherwise.
+   */
+  isExpired(now = Date.now()) {
+    return this.getRemainingSeconds(now) === 0;
+  }
+
+  /**
+   * Checks whether a new OTP can be requested.
+   * @param now - (Optional) The current device time in milliseconds. Default is `Date.now()`.
+   * @returns True if the current OTP has expired and attempts are left, false otherwise.
+   */
+  canResend(now = Date.now()) {
+    return this.isExpired(now) && this.getRemainingAttempts() > 0;
+  }
+
+  /**
+   * Gets a snapshot of the current state for rendering.
+   * @param now - (Optional) The current device time in milliseconds. Default is `Date.now()`.
+   * @returns An object containing the counters and derived values.
+   */
+  getSnapshot(now = Date.now()): OtpSnapshot {
+    return {
+      transactionId: this.transactionId,
+      count: this.count,
+      numberLimit: this.numberLimit,
+      remainingAttempts: this.getRemainingAttempts(),
+      remainingSeconds: this.getRemainingSeconds(now),
+      isExpired: this.isExpired(now),
+      canResend: this.canResend(now),
+    };
+  }
+
+  /**
+   * Resets the state, e.g. when starting over with a new appointment.
+   */
+  reset() {
+    this.transactionId = '';
+    this.count = 0;
+    this.numberLimit = 0;
+    this.expiredTime = 0;
+    this.clockOffset = 0;
+  }
+}
+
+/**
+ * Creates and returns a new instance of OtpState.
+ * @returns A new instance of OtpState.
+ */
+export function createOtpState() {
+  return new OtpState();
+}
@@ -0,0 +1,75 @@
+import { VpageAbortError, VpageError, VpageErrorKind, VpageHttpError } from '../errors';
+import { RetryPolicy } from '../types';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  baseDelay: 500,
+  maxDelay: 8000,
+  jitter: true,
+  retryOn: [VpageErrorKind.NETWORK, VpageErrorKind.TIMEOUT, VpageErrorKind.HTTP],
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Merges the client retry policy with a per-call override.
+ * @param clientPolicy - (Optional) The retry policy configured on the client.
+ * @param callPolicy - (Optional) The per-call override, or `false` to disable retries.
+ * @returns The resolved retry policy with every field set.
+ */
+export function resolveRetryPolicy(clientPolicy?: RetryPolicy, callPolicy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (callPolicy === false) {
+    return { ...DEFAULT_RETRY_POLICY, ...clientPolicy, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...clientPolicy, ...callPolicy };
+}
+
+/**
+ * Checks whether an error can be retried under the given policy.
+ * @param error - The error raised by the last attempt.
+ * @param policy - The resolved retry policy.
+ * @returns True if the request can be sent again.
+ */
+export function isRetryable(error: VpageError, policy: Required<RetryPolicy>) {
+  if (!policy.retryOn.includes(error.kind)) {
+    return false;
+  }
+  if (error instanceof VpageHttpError) {
+    return policy.retryOnStatus.includes(error.httpCode);
+  }
+  return true;
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff.
+ * @param policy - The resolved retry policy.
+ * @param attempt - The number of the attempt that just failed, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(policy: Required<RetryPolicy>, attempt: number) {
+  const backoff = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Waits for the given amount of time.
+ * @param ms - The time to wait in milliseconds.
+ * @param signal - (Optional) A signal cancelling the wait.
+ * @returns A promise that resolves after the delay, or rejects with a `VpageAbortError` when cancelled.
+ */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new VpageAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new VpageAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,79 @@
+import { TokenProvider, UnauthorizedHandler } from '../types';
+
+export type TokenManagerOptions = {
+  token?: string;
+  tokenProvider?: TokenProvider;
+  onUnauthorized?: UnauthorizedHandler;
+};
+
+/**
+ * TokenManager resolves the access token for outgoing requests and refreshes it after a 401.
+ * Concurrent refreshes share a single call to `onUnauthorized`.
+ */
+export class TokenManager {
+  private token?: string;
+  private tokenProvider?: TokenProvider;
+  private onUnauthorized?: UnauthorizedHandler;
+  private refreshing?: Promise<string | undefined>;
+
+  constructor(options: TokenManagerOptions = {}) {
+    this.token = options.token;
+    this.tokenProvider = options.tokenProvider;
+    this.onUnauthorized = options.onUnauthorized;
+  }
+
+  /**
+   * Gets the current access token, waiting for a refresh in progress if any.
+   * @returns A promise resolving to the token, or `undefined` if none is configured.
+   */
+  async getToken() {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    if (this.tokenProvider) {
+      return this.tokenProvider();
+    }
+    return this.token;
+  }
+
+  /**
+   * Checks whether a refresh hook is configured.
+   * @returns True if the token can be refreshed after a 401.
+   */
+  canRefresh() {
+    return !!this.onUnauthorized;
+  }
+
+  /**
+   * Refreshes the access token. Calls made while a refresh is in progress share its result.
+   * @returns A promise resolving to the new token, or `undefined` if the refresh failed.
+   */
+  refresh() {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Calls the refresh hook and stores the returned token.
+   * @returns A promise resolving to the new token, or `undefined` if the refresh failed.
+   */
+  private async runRefresh() {
+    try {
+      const token = await this.onUnauthorized?.();
+      if (this.tokenProvider) {
+        return token || await this.tokenProvider();
+      }
+      if (token) {
+        this.token = token;
+      }
+      return this.token;
+    } catch (error) {
+      console.error('Error refreshing token:', error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { APIService, ContractAction } from '../../api/apiService';
+import { createMemoryStorage } from '../../storage';
+import { StorageAdapter } from '../../types';
+import { AuditLogEntry, createAuditLog } from '../auditLog';
+
+describe('AuditLog', () => {
+  const storageKey = '@vpage/audit-log';
+  const leftover: AuditLogEntry = {
+    id: 'entry-1',
+    sequence: 1,
+    timestamp: 1,
+    contractAction: ContractAction.CUSTOMER_CONFIRM,
+    detail: { contracts: [] },
+    sessionKey: 'session-1',
+  };
+
+  let storage: StorageAdapter;
+  let apiService: APIService;
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    await storage.setItem(storageKey, JSON.stringify({ nextSequence: 2, entries: [leftover], deadLetters: [] }));
+    // Never settles, so the entries stay pending
+    apiService = { saveLog: jest.fn(() => new Promise(() => {})) } as unknown as APIService;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the stored entries when reading them fails once', async () => {
+    jest.spyOn(storage, 'getItem').mockRejectedValueOnce(new Error('Storage unavailable'));
+    const auditLog = createAuditLog(apiService, { storage, flushDelay: 60000 });
+
+    await expect(auditLog.log(ContractAction.OTP_CONFIRM)).rejects.toThrow('Storage unavailable');
+    const entry = await auditLog.log(ContractAction.OTP_CONFIRM);
+
+    expect(entry.sequence).toBe(2);
+    expect(auditLog.getPendingEntries().map((e) => e.id)).toEqual(['entry-1', entry.id]);
+    expect(JSON.parse((await storage.getItem(storageKey))!).entries).toHaveLength(2);
+    auditLog.dispose();
+  });
+
+  it('rejects while the stored entries cannot be read, without overwriting them', async () => {
+    jest.spyOn(storage, 'getItem').mockRejectedValue(new Error('Storage unavailable'));
+    const setItem = jest.spyOn(storage, 'setItem');
+    const auditLog = createAuditLog(apiService, { storage, flushDelay: 60000 });
+
+    await expect(auditLog.log(ContractAction.OTP_CONFIRM)).rejects.toThrow('Storage unavailable');
+    await expect(auditLog.flush()).rejects.toThrow('Storage unavailable');
+    expect(setItem).not.toHaveBeenCalled();
+    auditLog.dispose();
+  });
+
+  it('gives the sequence number back when persisting fails', async () => {
+    const auditLog = createAuditLog(apiService, { storage, flushDelay: 60000 });
+    jest.spyOn(storage, 'setItem').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(auditLog.log(ContractAction.OTP_CONFIRM)).rejects.toThrow('Disk full');
+    const entry = await auditLog.log(ContractAction.OTP_CONFIRM);
+
+    expect(entry.sequence).toBe(2);
+    auditLog.dispose();
+  });
+});
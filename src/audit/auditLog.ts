@@ -0,0 +1,356 @@
+import { APIService, ContractAction } from '../api/apiService';
+import { getRetryDelay, isRetryable, resolveRetryPolicy } from '../api/retry';
+import { VpageError, toVpageError } from '../errors';
+import { createMemoryStorage } from '../storage';
+import { RetryPolicy, StorageAdapter } from '../types';
+import { generateId } from '../utils/id';
+
+export type AuditLogEntry = {
+  /** Unique ID of the entry, sent as idempotency key so replays are not recorded twice. */
+  id: string;
+  sequence: number;
+  timestamp: number;
+  contractAction: ContractAction;
+  detail: any;
+  sessionKey: string;
+};
+
+/**
+ * An entry given up on, because the server rejected it or it failed `maxAttempts` times.
+ */
+export type DeadAuditLogEntry = AuditLogEntry & {
+  attempts: number;
+  error: string;
+  failedAt: number;
+};
+
+export type AuditLogStatus = {
+  pending: number;
+  /** Number of entries given up on, see `getDeadLetters`. */
+  deadLetters: number;
+  flushing: boolean;
+  failedAttempts: number;
+  lastError?: VpageError;
+  lastFlushedAt?: number;
+};
+
+export type AuditLogOptions = {
+  /**
+   * Storage keeping the pending entries while offline, e.g. AsyncStorage.
+   * Default is in-memory storage, which loses the pending entries when the app is killed.
+   */
+  storage?: StorageAdapter;
+  storageKey?: string;
+  /**
+   * Delay before flushing new entries in milliseconds, so entries logged together are flushed in one pass.
+   * Each entry is still sent in its own `saveLog` request. Default is 1000.
+   */
+  flushDelay?: number;
+  /**
+   * Backoff between failed attempts, and the errors worth retrying.
+   * An entry failing with another error, or `maxAttempts` times, is moved to the dead letters. Default is 10 attempts.
+   */
+  retry?: RetryPolicy;
+};
+
+type StoredQueue = {
+  nextSequence: number;
+  entries: AuditLogEntry[];
+  deadLetters?: DeadAuditLogEntry[];
+};
+
+/**
+ * AuditLog records contract actions as compliance evidence.
+ * Every entry is timestamped, sequenced and persisted before being sent through `saveLog`,
+ * then flushed in order with retries, so nothing is lost when the network drops or the app is killed mid-call.
+ * Entries the server rejects are moved to the dead letters instead of blocking the entries after them.
+ *
+ * **Note:** Entries only survive the app being killed with a persistent `storage` adapter.
+ */
+class AuditLog {
+  private apiService: APIService;
+  private storage: StorageAdapter;
+  private storageKey: string;
+  private flushDelay: number;
+  private retryPolicy: Required<RetryPolicy>;
+  private entries: AuditLogEntry[] = [];
+  private deadLetters: DeadAuditLogEntry[] = [];
+  private nextSequence = 1;
+  private ready?: Promise<void>;
+  private flushing?: Promise<void>;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+  private failedAttempts = 0;
+  private lastError?: VpageError;
+  private lastFlushedAt?: number;
+  private listeners = new Set<(status: AuditLogStatus) => void>();
+
+  /**
+   * Creates an instance of AuditLog and restores the entries left over by a previous run.
+   * @param apiService - The APIService used to send the entries.
+   * @param options - (Optional) Storage and flush options.
+   */
+  constructor(apiService: APIService, options: AuditLogOptions = {}) {
+    this.apiService = apiService;
+    if (!options.storage) {
+      console.warn('AuditLog has no storage adapter, pending entries are lost when the app is killed.');
+    }
+    this.storage = options.storage || createMemoryStorage();
+    this.storageKey = options.storageKey || '@vpage/audit-log';
+    this.flushDelay = options.flushDelay ?? 1000;
+    this.retryPolicy = resolveRetryPolicy({ maxAttempts: 10, ...options.retry });
+    this.load().catch((error) => console.error('Error restoring audit log, retrying on the next log or flush:', error));
+  }
+
+  /**
+   * Loads the entries left over by a previous run once.
+   * If loading fails, the returned promise rejects and the next call tries again.
+   * Nothing is persisted before it succeeds, so the stored entries are never overwritten.
+   */
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.restore().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Loads the pending entries from storage and schedules a flush if any.
+   */
+  private async restore(): Promise<void> {
+    const raw = await this.storage.getItem(this.storageKey);
+    if (raw) {
+      const stored: StoredQueue = JSON.parse(raw);
+      this.entries = stored.entries || [];
+      this.deadLetters = stored.deadLetters || [];
+      this.nextSequence = stored.nextSequence || 1;
+    }
+    if (this.entries.length > 0) {
+      this.scheduleFlush(0);
+    }
+    this.notify();
+  }
+
+  /**
+   * Writes the pending entries to storage.
+   */
+  private async persist(): Promise<void> {
+    const stored: StoredQueue = { nextSequence: this.nextSequence, entries: this.entries, deadLetters: this.deadLetters };
+    await this.storage.setItem(this.storageKey, JSON.stringify(stored));
+  }
+
+  /**
+   * Records a contract action. The entry is persisted before this resolves and sent in the background.
+   * @param contractAction - The contract action to be logged.
+   * @param detail - (Optional) Additional details to include in the log.
+   * @param sessionKey - (Optional) The session key associated with the log.
+   * @returns A promise resolving to the recorded entry.
+   * @throws If the stored entries cannot be loaded, or the entry cannot be persisted. The entry is not recorded then.
+   */
+  async log(contractAction: ContractAction, detail: any = null, sessionKey = ''): Promise<AuditLogEntry> {
+    await this.load();
+    const entry: AuditLogEntry = {
+      id: generateId(),
+      sequence: this.nextSequence++,
+      timestamp: Date.now(),
+      contractAction,
+      detail,
+      sessionKey,
+    };
+    this.entries.push(entry);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.entries = this.entries.filter((e) => e !== entry);
+      // Give the sequence number back, unless another entry took the next one meanwhile
+      if (this.nextSequence === entry.sequence + 1) {
+        this.nextSequence = entry.sequence;
+      }
+      throw error;
+    }
+    this.notify();
+    this.scheduleFlush(this.flushDelay);
+    return entry;
+  }
+
+  /**
+   * Sends the pending entries in order. Stops at the first failure and retries later with backoff.
+   * Concurrent calls share the flush in progress.
+   * @returns A promise that resolves when the flush is complete, or rejects if the stored entries cannot be loaded.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = undefined;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Sends the pending entries one by one, removing each from storage once delivered or given up on.
+   */
+  private async runFlush(): Promise<void> {
+    await this.load();
+    this.clearFlushTimer();
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      try {
+        await this.apiService.saveLog(entry.contractAction, entry.detail, entry.sessionKey, {
+          idempotencyKey: entry.id,
+          sequence: entry.sequence,
+          timestamp: entry.timestamp,
+          retry: false,
+        });
+        this.lastError = undefined;
+        this.lastFlushedAt = Date.now();
+      } catch (error) {
+        this.failedAttempts++;
+        this.lastError = toVpageError(error);
+        if (this.failedAttempts < this.retryPolicy.maxAttempts && isRetryable(this.lastError, this.retryPolicy)) {
+          console.warn(`Audit log entry ${entry.sequence} not delivered, retrying later:`, this.lastError.message);
+          this.scheduleFlush(getRetryDelay(this.retryPolicy, this.failedAttempts));
+          return;
+        }
+        console.error(`Audit log entry ${entry.sequence} not delivered after ${this.failedAttempts} attempts, giving up:`, this.lastError.message);
+        this.deadLetters.push({ ...entry, attempts: this.failedAttempts, error: this.lastError.message, failedAt: Date.now() });
+      }
+      // Dead letters may have been queued again in front of the entry meanwhile
+      this.entries = this.entries.filter((e) => e !== entry);
+      this.failedAttempts = 0;
+      try {
+        await this.persist();
+      } catch (error) {
+        console.error('Error persisting audit log:', error);
+      }
+      this.notify();
+    }
+  }
+
+  /**
+   * Schedules the next flush, replacing the one already scheduled.
+   * @param delay - The delay before flushing in milliseconds.
+   */
+  private scheduleFlush(delay: number) {
+    this.clearFlushTimer();
+    if (this.disposed) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Cancels the scheduled flush.
+   */
+  private clearFlushTimer() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Gets the current status of the queue.
+   * @returns An object containing the number of pending entries and the last flush outcome.
+   */
+  getStatus(): AuditLogStatus {
+    return {
+      pending: this.entries.length,
+      deadLetters: this.deadLetters.length,
+      flushing: !!this.flushing,
+      failedAttempts: this.failedAttempts,
+      lastError: this.lastError,
+      lastFlushedAt: this.lastFlushedAt,
+    };
+  }
+
+  /**
+   * Gets a copy of the entries not delivered yet, in order.
+   * @returns The pending entries.
+   */
+  getPendingEntries(): AuditLogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Gets a copy of the entries given up on, in the order they failed.
+   * @returns The dead entries, with the number of attempts and the last error.
+   */
+  getDeadLetters(): DeadAuditLogEntry[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Queues the dead entries again, in sequence order with the pending ones, e.g. once the server is fixed.
+   * @returns A promise that resolves when the queue is persisted.
+   */
+  async retryDeadLetters(): Promise<void> {
+    await this.load();
+    if (this.deadLetters.length === 0) {
+      return;
+    }
+    const revived = this.deadLetters.map(({ attempts, error, failedAt, ...entry }) => entry);
+    const previous = { entries: this.entries, deadLetters: this.deadLetters };
+    this.entries = [...this.entries, ...revived].sort((a, b) => a.sequence - b.sequence);
+    this.deadLetters = [];
+    try {
+      await this.persist();
+    } catch (error) {
+      this.entries = previous.entries;
+      this.deadLetters = previous.deadLetters;
+      throw error;
+    }
+    this.notify();
+    this.scheduleFlush(0);
+  }
+
+  /**
+   * Registers a listener called whenever the queue status changes.
+   * @param listener - The listener to call with the new status.
+   * @returns A function that unregisters the listener.
+   */
+  subscribe(listener: (status: AuditLogStatus) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Calls every status listener with the current status.
+   */
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+
+  /**
+   * Stops the scheduled flushes. Pending entries stay in storage and are sent by the next instance.
+   */
+  dispose() {
+    this.disposed = true;
+    this.clearFlushTimer();
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Creates and returns a new instance of AuditLog.
+ * @param apiService - The APIService used to send the entries.
+ * @param options - (Optional) Storage and flush options.
+ * @returns A new instance of AuditLog.
+ */
+export function createAuditLog(apiService: APIService, options?: AuditLogOptions) {
+  return new AuditLog(apiService, options);
+}
+
+// Export for external use
+export type { AuditLog };
@@ -0,0 +1,47 @@
+import { AxiosAdapter } from 'axios';
+import { ContractAction, createAPIService } from '../../api/apiService';
+import { CryptoService } from '../../crypto';
+import { VpageAuditError, VpageBusinessError } from '../../errors';
+import { createMemoryFileStore } from '../../storage';
+import { createFakeVekycBackend, fail } from '../../testing';
+import { createContractManager } from '../contractManager';
+
+describe('ContractManager', () => {
+  const sessionKey = 'session-1';
+  const document = new TextEncoder().encode('%PDF-1.7 contract');
+  const adapter: AxiosAdapter = async (config) => ({
+    data: document.buffer,
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/pdf' },
+    config,
+  });
+
+  let backend: ReturnType<typeof createFakeVekycBackend>;
+
+  beforeEach(() => {
+    backend = createFakeVekycBackend();
+  });
+
+  it('records the document hashes in the CUSTOMER_CONFIRM entry', async () => {
+    const contractManager = createContractManager(createAPIService(backend.apiClientOptions()), { fileStore: createMemoryFileStore(), adapter });
+
+    await contractManager.confirm(sessionKey);
+
+    expect(backend.getRequests('SAVE_LOG')[0].data).toMatchObject({
+      actionHistory: ContractAction.CUSTOMER_CONFIRM,
+      detail: { contracts: [{ name: 'Contract', hash: CryptoService.hashSHA256(document) }] },
+    });
+  });
+
+  it('rejects when the CUSTOMER_CONFIRM entry cannot be recorded', async () => {
+    backend.once('SAVE_LOG', { body: fail('LOG_FAILED', 'Log not saved') });
+    const contractManager = createContractManager(createAPIService(backend.apiClientOptions()), { fileStore: createMemoryFileStore(), adapter });
+
+    const error = await contractManager.confirm(sessionKey).catch((e) => e);
+
+    expect(backend.getRequests('CONFIRM_CONTRACT')).toHaveLength(1);
+    expect(error).toBeInstanceOf(VpageAuditError);
+    expect(error.cause).toBeInstanceOf(VpageBusinessError);
+  });
+});
@@ -0,0 +1,246 @@
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
+import { APIService, ContractAction } from '../api/apiService';
+import { AuditLog } from '../audit';
+import { CryptoService } from '../crypto';
+import { VpageAuditError, toVpageError } from '../errors';
+import { createDeviceFileStore } from '../storage';
+import { ContractDto, FileStore, RequestOptions } from '../types';
+
+export type CachedContract = {
+  name: string;
+  /** URL the document was downloaded from. */
+  url: string;
+  fileType: string;
+  mimeType: string;
+  /** SHA-256 hash of the document content, as a lowercase hex string. */
+  hash: string;
+  /** URI to render the document from. */
+  localUri: string;
+  size: number;
+  downloadedAt: number;
+};
+
+/**
+ * Detail of the `CUSTOMER_CONFIRM` audit entry, also sent back on the notify topics.
+ */
+export type ContractConfirmationDetail = {
+  contracts: Pick<CachedContract, 'name' | 'url' | 'fileType' | 'hash' | 'size'>[];
+};
+
+export type ContractManagerOptions = {
+  /** Store keeping the downloaded documents. Default is the device cache directory, or memory if no file system library is installed. */
+  fileStore?: FileStore;
+  /** Audit log recording the `CUSTOMER_CONFIRM` entry. Default is to send it directly through `saveLog`. */
+  auditLog?: AuditLog;
+  /** Timeout of each download in milliseconds. Default is 30000. */
+  timeout?: number;
+  /** Custom Axios adapter used to download the documents. */
+  adapter?: AxiosAdapter;
+};
+
+const mimeTypes: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  htm: 'text/html',
+  txt: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+};
+
+/**
+ * ContractManager downloads the contract documents of a session, caches them by session key
+ * and records the SHA-256 hash of each one, so the version the customer accepted can be proven.
+ */
+class ContractManager {
+  private apiService: APIService;
+  private fileStore: FileStore;
+  private auditLog?: AuditLog;
+  private http: AxiosInstance;
+  private cache = new Map<string, CachedContract[]>();
+  private loading = new Map<string, Promise<CachedContract[]>>();
+
+  /**
+   * Creates an instance of ContractManager.
+   * @param apiService - The APIService used to list and confirm the contracts.
+   * @param options - (Optional) File store, audit log and download options.
+   */
+  constructor(apiService: APIService, options: ContractManagerOptions = {}) {
+    this.apiService = apiService;
+    this.fileStore = options.fileStore || createDeviceFileStore();
+    this.auditLog = options.auditLog;
+    this.http = axios.create({
+      timeout: options.timeout || 30000,
+      responseType: 'arraybuffer',
+      ...(options.adapter && { adapter: options.adapter }),
+    });
+  }
+
+  /**
+   * Downloads the contracts of a session, or returns them from the cache if already downloaded.
+   * Concurrent calls for the same session share the download in progress.
+   * @param sessionKey - The session key for the contracts.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal or a timeout.
+   * @returns A promise resolving to the cached contracts.
+   */
+  load(sessionKey: string, options?: RequestOptions): Promise<CachedContract[]> {
+    const cached = this.cache.get(sessionKey);
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+    let loading = this.loading.get(sessionKey);
+    if (!loading) {
+      loading = this.download(sessionKey, options).finally(() => {
+        this.loading.delete(sessionKey);
+      });
+      this.loading.set(sessionKey, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Removes the cached contracts of a session and downloads them again.
+   * @param sessionKey - The session key for the contracts.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal or a timeout.
+   * @returns A promise resolving to the cached contracts.
+   */
+  async reload(sessionKey: string, options?: RequestOptions): Promise<CachedContract[]> {
+    await this.clear(sessionKey);
+    return this.load(sessionKey, options);
+  }
+
+  /**
+   * Gets the cached contracts of a session.
+   * @param sessionKey - The session key for the contracts.
+   * @returns The cached contracts, or `undefined` if they have not been downloaded.
+   */
+  get(sessionKey: string): CachedContract[] | undefined {
+    return this.cache.get(sessionKey);
+  }
+
+  /**
+   * Confirms the contracts of a session and records the hash of every document in the `CUSTOMER_CONFIRM` audit entry.
+   * Downloads the contracts first if they are not cached, so the hashes always match what was shown.
+   * @param sessionKey - The session key for the contracts.
+   * @param options - (Optional) Per-call request options, e.g. an abort signal or a timeout.
+   * @returns A promise resolving to the confirmation response.
+   * @throws {VpageAuditError} If the contracts were confirmed but the `CUSTOMER_CONFIRM` entry could not be recorded.
+   */
+  async confirm(sessionKey: string, options?: RequestOptions) {
+    const contracts = await this.load(sessionKey, options);
+    const res = await this.apiService.confirmContract(sessionKey, options);
+    const detail: ContractConfirmationDetail = {
+      contracts: contracts.map(({ name, url, fileType, hash, size }) => ({ name, url, fileType, hash, size })),
+    };
+    try {
+      if (this.auditLog) {
+        await this.auditLog.log(ContractAction.CUSTOMER_CONFIRM, detail, sessionKey);
+      } else {
+        await this.apiService.saveLog(ContractAction.CUSTOMER_CONFIRM, detail, sessionKey);
+      }
+    } catch (error) {
+      throw new VpageAuditError('Contracts confirmed, but the CUSTOMER_CONFIRM audit entry could not be recorded', error);
+    }
+    return res;
+  }
+
+  /**
+   * Removes the cached contracts and their files.
+   * @param sessionKey - (Optional) Only removes the contracts of this session.
+   */
+  async clear(sessionKey?: string): Promise<void> {
+    const keys = sessionKey ? [sessionKey] : Array.from(this.cache.keys());
+    for (const key of keys) {
+      const contracts = this.cache.get(key) || [];
+      this.cache.delete(key);
+      for (const contract of contracts) {
+        try {
+          await this.fileStore.remove(contract.localUri);
+        } catch (error) {
+          console.error('Error removing contract file:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Lists the contracts of a session, then downloads, hashes and stores every document.
+   * @param sessionKey - The session key for the contracts.
+   * @param options - (Optional) Per-call request options.
+   * @returns A promise resolving to the cached contracts.
+   */
+  private async download(sessionKey: string, options?: RequestOptions): Promise<CachedContract[]> {
+    const res = await this.apiService.getContractList(sessionKey, options);
+    const contracts: CachedContract[] = [];
+    for (const [index, contract] of (res.data || []).entries()) {
+      contracts.push(await this.downloadContract(sessionKey, index, contract, options));
+    }
+    this.cache.set(sessionKey, contracts);
+    return contracts;
+  }
+
+  /**
+   * Downloads, hashes and stores a single document.
+   * @param sessionKey - The session key for the contract.
+   * @param index - The position of the contract in the list, keeping file names unique.
+   * @param contract - The contract to download.
+   * @param options - (Optional) Per-call request options.
+   * @returns A promise resolving to the cached contract.
+   */
+  private async downloadContract(sessionKey: string, index: number, contract: ContractDto, options?: RequestOptions): Promise<CachedContract> {
+    let data: Uint8Array;
+    let contentType: string | undefined;
+    try {
+      const res = await this.http.get<ArrayBuffer>(contract.url, {
+        signal: options?.signal,
+        ...(options?.timeout && { timeout: options.timeout }),
+      });
+      data = new Uint8Array(res.data);
+      contentType = res.headers['content-type']?.toString();
+    } catch (error) {
+      throw toVpageError(error);
+    }
+    const mimeType = this.getMimeType(contract.fileType, contentType);
+    const name = `${sessionKey}-${index}-${contract.name}.${contract.fileType}`.replace(/[^\w.-]/g, '_');
+    const localUri = await this.fileStore.write(name, data, mimeType);
+    return {
+      name: contract.name,
+      url: contract.url,
+      fileType: contract.fileType,
+      mimeType,
+      hash: CryptoService.hashSHA256(data),
+      localUri,
+      size: data.byteLength,
+      downloadedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Resolves the MIME type of a document, preferring the one sent by the server unless it is generic.
+   * @param fileType - The file type listed with the contract, e.g. `pdf`.
+   * @param contentType - (Optional) The `Content-Type` header of the download.
+   * @returns The MIME type.
+   */
+  private getMimeType(fileType: string, contentType?: string) {
+    const type = contentType?.split(';')[0].trim().toLowerCase();
+    if (type && type !== 'application/octet-stream') {
+      return type;
+    }
+    return mimeTypes[fileType.toLowerCase().replace(/^\./, '')] || 'application/octet-stream';
+  }
+}
+
+/**
+ * Creates and returns a new instance of ContractManager.
+ * @param apiService - The APIService used to list and confirm the contracts.
+ * @param options - (Optional) File store, audit log and download options.
+ * @returns A new instance of ContractManager.
+ */
+export function createContractManager(apiService: APIService, options?: ContractManagerOptions) {
+  return new ContractManager(apiService, options);
+}
+
+// Export for external use
+export type { ContractManager };
@@ -0,0 +1,50 @@
+import { VpageConfigError } from '../../errors';
+import { CryptoService } from '../cryptoService';
+
+describe('CryptoService', () => {
+  const secret = 'shared-secret';
+
+  it('round-trips a password envelope with a fresh salt and IV every time', () => {
+    const first = CryptoService.encrypt('hello', secret)!;
+    const second = CryptoService.encrypt('hello', secret)!;
+
+    expect(first).toMatch(/^v1\./);
+    expect(first).not.toBe(second);
+    expect(CryptoService.decrypt(first, secret)).toBe('hello');
+    expect(CryptoService.decrypt(first, 'wrong-secret')).toBeUndefined();
+  });
+
+  it('round-trips a keyed envelope and detects tampering', () => {
+    const key = CryptoService.generateKey();
+    const envelope = CryptoService.encryptWithKey('hello', key)!;
+    const parts = envelope.split('.');
+    parts[3] = parts[3].replace(/^./, (c) => (c === 'A' ? 'B' : 'A'));
+
+    expect(envelope).toMatch(/^k1\./);
+    expect(CryptoService.isEnvelope(envelope)).toBe(true);
+    expect(CryptoService.decrypt(envelope, key)).toBe('hello');
+    expect(CryptoService.decrypt(parts.join('.'), key)).toBeUndefined();
+    expect(CryptoService.decrypt(envelope, CryptoService.generateKey())).toBeUndefined();
+  });
+
+  it('rejects keys that are not 32 bytes of hex', () => {
+    expect(() => CryptoService.encryptWithKey('hello', secret)).toThrow(VpageConfigError);
+  });
+
+  describe('without crypto.getRandomValues', () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+
+    beforeEach(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    });
+
+    afterEach(() => {
+      Object.defineProperty(globalThis, 'crypto', descriptor!);
+    });
+
+    it('throws instead of using an insecure generator', () => {
+      expect(() => CryptoService.encrypt('hello', secret)).toThrow(VpageConfigError);
+      expect(() => CryptoService.generateKey()).toThrow(VpageConfigError);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import CryptoJS from 'react-native-crypto-js';
+import AES from 'crypto-js/aes';
+import Core from 'crypto-js/core';
+import Base64url from 'crypto-js/enc-base64url';
+import Hex from 'crypto-js/enc-hex';
+import HmacSHA256 from 'crypto-js/hmac-sha256';
+import PBKDF2 from 'crypto-js/pbkdf2';
+import type { lib } from 'crypto-js';
+import { VpageConfigError, VpageDecryptionError } from '../errors';
+import { toWordArray } from '../utils/bytes';
+import { randomBytes } from '../utils/id';
+
+/** Version prefix of the envelope format produced by `encryptEnvelope`. */
+const ENVELOPE_VERSION = 'v1';
+/** Version prefix of the envelope format produced by `encryptEnvelopeWithKey`. */
+const KEY_ENVELOPE_VERSION = 'k1';
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const IV_BYTES = 16;
+const KDF_ITERATIONS = 10000;
+
+/**
+ * Derives the AES and HMAC keys of an envelope from a secret with PBKDF2-HMAC-SHA256.
+ * @param secret - The shared secret.
+ * @param salt - The random salt of the envelope.
+ * @returns The 256-bit encryption key and the 256-bit MAC key.
+ */
+function deriveKeys(secret: string, salt: lib.WordArray) {
+  const derived = PBKDF2(secret, salt, { keySize: 16, iterations: KDF_ITERATIONS, hasher: Core.algo.SHA256 });
+  return {
+    encKey: Core.lib.WordArray.create(derived.words.slice(0, 8), 32),
+    macKey: Core.lib.WordArray.create(derived.words.slice(8, 16), 32),
+  };
+}
+
+/**
+ * Derives the AES and HMAC keys of an envelope from a random 256-bit key with HMAC-SHA256.
+ * The key is already uniformly random, so no stretching is needed.
+ * @param key - The 256-bit key, as a hex string.
+ * @param salt - The random salt of the envelope.
+ * @returns The 256-bit encryption key and the 256-bit MAC key.
+ * @throws {VpageConfigError} If the key is not 32 bytes of hex.
+ */
+function expandKey(key: string, salt: lib.WordArray) {
+  const master = Hex.parse(key);
+  if (!/^[0-9a-f]{64}$/i.test(key) || master.sigBytes !== KEY_BYTES) {
+    throw new VpageConfigError(`The key must be ${KEY_BYTES} bytes as a hex string.`);
+  }
+  return {
+    encKey: HmacSHA256(salt.clone().concat(Core.enc.Utf8.parse('enc')), master),
+    macKey: HmacSHA256(salt.clone().concat(Core.enc.Utf8.parse('mac')), master),
+  };
+}
+
+/**
+ * Encrypts a text with AES-256-CBC under a random IV, then authenticates the envelope with HMAC-SHA256.
+ * @param version - The version prefix, telling how the keys are derived.
+ * @param text - The plaintext to encrypt.
+ * @param derive - Derives the keys from the random salt.
+ * @returns The envelope `<version>.<salt>.<iv>.<ciphertext>.<mac>`.
+ * @throws {VpageConfigError} If the runtime has no secure random number generator.
+ */
+function seal(version: string, text: string, derive: (salt: lib.WordArray) => { encKey: lib.WordArray; macKey: lib.WordArray }) {
+  const salt = toWordArray(randomBytes(SALT_BYTES));
+  const iv = toWordArray(randomBytes(IV_BYTES));
+  const { encKey, macKey } = derive(salt);
+  const cipherText = AES.encrypt(text, encKey, { iv }).ciphertext;
+  const payload = [version, Base64url.stringify(salt), Base64url.stringify(iv), Base64url.stringify(cipherText)].join('.');
+  const mac = Base64url.stringify(HmacSHA256(payload, macKey));
+  return `${payload}.${mac}`;
+}
+
+/**
+ * Checks the MAC of an envelope, then decrypts it.
+ * @param envelope - The envelope to decrypt.
+ * @param version - The expected version prefix.
+ * @param derive - Derives the keys from the salt of the envelope.
+ * @returns The decrypted plaintext.
+ * @throws {VpageDecryptionError} If the envelope is malformed or tampered with.
+ */
+function open(envelope: string, version: string, derive: (salt: lib.WordArray) => { encKey: lib.WordArray; macKey: lib.WordArray }) {
+  const parts = envelope.split('.');
+  if (parts.length !== 5 || parts[0] !== version) {
+    throw new VpageDecryptionError('Unsupported envelope format');
+  }
+  const [, salt, iv, cipherText, mac] = parts;
+  const { encKey, macKey } = derive(Base64url.parse(salt));
+  const expectedMac = Base64url.stringify(HmacSHA256(parts.slice(0, 4).join('.'), macKey));
+  if (!safeEqual(mac, expectedMac)) {
+    throw new VpageDecryptionError('Envelope authentication failed');
+  }
+  const decrypted = AES.decrypt(
+    Core.lib.CipherParams.create({ ciphertext: Base64url.parse(cipherText) }),
+    encKey,
+    { iv: Base64url.parse(iv) }
+  );
+  return decrypted.toString(Core.enc.Utf8);
+}
+
+/**
+ * Compares two strings in constant time, so MAC checks do not leak how many characters match.
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns True if both strings are equal.
+ */
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Encrypts a text into an envelope `v1.<salt>.<iv>.<ciphertext>.<mac>`, with keys derived from a secret with PBKDF2.
+ * @param text - The plaintext to encrypt.
+ * @param secret - The shared secret.
+ * @returns The envelope.
+ * @throws {VpageConfigError} If the runtime has no secure random number generator.
+ */
+export function encryptEnvelope(text: string, secret: string) {
+  return seal(ENVELOPE_VERSION, text, (salt) => deriveKeys(secret, salt));
+}
+
+/**
+ * Encrypts a text into an envelope `k1.<salt>.<iv>.<ciphertext>.<mac>`, with keys derived from a random 256-bit key.
+ * @param text - The plaintext to encrypt.
+ * @param key - The 32-byte key as a hex string.
+ * @returns The envelope.
+ * @throws {VpageConfigError} If the key is not 32 bytes of hex, or the runtime has no secure random number generator.
+ */
+export function encryptEnvelopeWithKey(text: string, key: string) {
+  return seal(KEY_ENVELOPE_VERSION, text, (salt) => expandKey(key, salt));
+}
+
+/**
+ * Decrypts a `v1` or `k1` envelope, checking its MAC before decrypting.
+ * @param envelope - The envelope to decrypt.
+ * @param secret - The shared secret of a `v1` envelope, or the key of a `k1` envelope.
+ * @returns The decrypted plaintext.
+ * @throws {VpageDecryptionError} If the envelope is malformed or tampered with, or the secret is wrong.
+ */
+export function decryptEnvelope(envelope: string, secret: string) {
+  if (envelope.startsWith(`${KEY_ENVELOPE_VERSION}.`)) {
+    return open(envelope, KEY_ENVELOPE_VERSION, (salt) => expandKey(secret, salt));
+  }
+  return open(envelope, ENVELOPE_VERSION, (salt) => deriveKeys(secret, salt));
+}
+
+/**
+ * Checks whether a text is a `v1` or `k1` envelope, as opposed to a legacy AES ciphertext.
+ * @param text - The text to check.
+ * @returns True if the text uses the envelope format.
+ */
+export function isEnvelope(text: string) {
+  return text.startsWith(`${ENVELOPE_VERSION}.`) || text.startsWith(`${KEY_ENVELOPE_VERSION}.`);
+}
+
+/**
+ * Generates a random 256-bit key for `encryptEnvelopeWithKey`.
+ * @returns The key as a hex string.
+ * @throws {VpageConfigError} If the runtime has no secure random number generator.
+ */
+export function generateKey() {
+  return toWordArray(randomBytes(KEY_BYTES)).toString(Hex);
+}
+
+/**
+ * Builds the key and IV of the legacy format, both derived from the key.
+ * @param key - The key. If longer than 32 characters, it is truncated.
+ * @returns The AES options.
+ */
+function legacyParams(key: string) {
+  const tokenKey = key.length > 32 ? key.substring(0, 32) : key;
+  return {
+    key: CryptoJS.enc.Utf8.parse(tokenKey),
+    iv: CryptoJS.enc.Utf8.parse(tokenKey.substring(0, 16)),
+  };
+}
+
+/**
+ * Encrypts a text with the legacy AES-CBC format, whose IV is derived from the key.
+ * @param text - The plaintext to encrypt.
+ * @param key - The key. If longer than 32 characters, it is truncated.
+ * @returns The ciphertext, base64 encoded.
+ */
+export function encryptLegacyAES(text: string, key: string) {
+  const { key: _key, iv } = legacyParams(key);
+  return CryptoJS.AES.encrypt(text, _key, { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }).toString();
+}
+
+/**
+ * Decrypts a ciphertext of the legacy AES-CBC format.
+ * @param text - The ciphertext, base64 encoded.
+ * @param key - The key. If longer than 32 characters, it is truncated.
+ * @returns The decrypted plaintext, empty if the key is wrong.
+ * @throws If the key is wrong and the result is not valid UTF-8.
+ */
+export function decryptLegacyAES(text: string, key: string) {
+  const { key: _key, iv } = legacyParams(key);
+  return CryptoJS.AES.decrypt(text, _key, { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }).toString(CryptoJS.enc.Utf8);
+}
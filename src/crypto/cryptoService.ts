@@ -1,4 +1,17 @@
-import CryptoJS from 'react-native-crypto-js';
+import Hex from 'crypto-js/enc-hex';
+import SHA256 from 'crypto-js/sha256';
+import { parseOnboardingLink } from '../deeplink/onboardingLink';
+import { VpageConfigError, VpageDecryptionError } from '../errors';
+import { toWordArray } from '../utils/bytes';
+import {
+  decryptEnvelope,
+  decryptLegacyAES,
+  encryptEnvelope,
+  encryptEnvelopeWithKey,
+  encryptLegacyAES,
+  generateKey,
+  isEnvelope,
+} from './aes';
 
 export class CryptoService {
   /**
@@ -6,20 +19,11 @@ export class CryptoService {
    * @param text - The plaintext to encrypt.
    * @param key - The encryption key. If longer than 32 characters, it will be truncated.
    * @returns The encrypted text as a string, or `undefined` if encryption fails.
+   * @deprecated The IV is derived from the key, so identical texts produce identical ciphertexts. Use `encrypt` instead.
    */
   static encryptionAES(text: string, key: string) {
     try {
-      const tokenKey = key.length > 32 ? key.substring(0, 32) : key;
-      const _key = CryptoJS.enc.Utf8.parse(tokenKey);
-      const iv = CryptoJS.enc.Utf8.parse(tokenKey.substring(0, 16));
-
-      const cipherText = CryptoJS.AES.encrypt(text, _key, {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7,
-      });
-
-      return cipherText.toString();
+      return encryptLegacyAES(text, key);
     } catch (error) {
       console.log("Error: Encryption failed", error);
       return undefined;
@@ -31,20 +35,11 @@ export class CryptoService {
    * @param text - The encrypted text to decrypt.
    * @param key - The decryption key. If longer than 32 characters, it will be truncated.
    * @returns The decrypted plaintext as a string, or `undefined` if decryption fails.
+   * @deprecated Kept to read legacy ciphertexts. Use `decrypt` instead.
    */
   static decryptionAES(text: string, key: string) {
     try {
-      const tokenKey = key.length > 32 ? key.substring(0, 32) : key;
-      const _key = CryptoJS.enc.Utf8.parse(tokenKey);
-      const iv = CryptoJS.enc.Utf8.parse(tokenKey.substring(0, 16));
-
-      const decrypted = CryptoJS.AES.decrypt(text, _key, {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7,
-      });
-
-      return decrypted.toString(CryptoJS.enc.Utf8);
+      return decryptLegacyAES(text, key);
     } catch (error) {
       console.log("Error: Decryption failed", error);
       return undefined;
@@ -52,40 +47,104 @@ export class CryptoService {
   }
 
   /**
-   * Decrypts the token from a given URL and extracts the base URL, appointment ID, and decrypted token.
-   * @param url - The URL containing the `appointment_id` and `token_encrypt` parameters.
-   * @returns An object containing the `baseUrl`, `appointmentId`, and decrypted `token`, or `undefined` if decryption fails.
+   * Encrypts a given text into a versioned, authenticated envelope: `v1.<salt>.<iv>.<ciphertext>.<mac>`.
+   * Keys are derived from the secret with PBKDF2 and a random salt, the text is encrypted with AES-256-CBC
+   * under a random IV, then the envelope is authenticated with HMAC-SHA256. Parts are base64url encoded.
+   * PBKDF2 is slow on purpose: use `encryptWithKey` to encrypt often with a random key.
+   * @param text - The plaintext to encrypt.
+   * @param secret - The shared secret.
+   * @returns The envelope, safe to use in a URL, or `undefined` if encryption fails.
+   * @throws {VpageConfigError} If the runtime has no secure random number generator, see `react-native-get-random-values`.
    */
-  decryptWS6Url(url: string) {
+  static encrypt(text: string, secret: string) {
     try {
-      // Extract the base URL (everything before the query parameters)
-      const [baseUrl, queryString] = url.split('?');
-      if (!queryString) {
-        throw new Error('Invalid URL: Missing query parameters');
+      return encryptEnvelope(text, secret);
+    } catch (error) {
+      if (error instanceof VpageConfigError) {
+        throw error;
       }
+      console.log("Error: Encryption failed", error);
+      return undefined;
+    }
+  }
 
-      // Parse the query parameters
-      const urlParams = new URLSearchParams(queryString);
-      const appointmentId = urlParams.get('appointment_id');
-      const encryptedToken = urlParams.get('token_encrypt');
-
-      if (!appointmentId || !encryptedToken) {
-        throw new Error('Missing required parameters: appointment_id or token_encrypt');
+  /**
+   * Encrypts a given text with a random 256-bit key into an envelope: `k1.<salt>.<iv>.<ciphertext>.<mac>`.
+   * Same as `encrypt`, but the keys are derived with HMAC-SHA256 instead of PBKDF2, which is only needed for passwords.
+   * @param text - The plaintext to encrypt.
+   * @param key - The 32-byte key as a hex string, e.g. generated with `generateKey`.
+   * @returns The envelope, safe to use in a URL, or `undefined` if encryption fails.
+   * @throws {VpageConfigError} If the key is not 32 bytes of hex, or the runtime has no secure random number generator.
+   */
+  static encryptWithKey(text: string, key: string) {
+    try {
+      return encryptEnvelopeWithKey(text, key);
+    } catch (error) {
+      if (error instanceof VpageConfigError) {
+        throw error;
       }
+      console.log("Error: Encryption failed", error);
+      return undefined;
+    }
+  }
 
-      // Decrypt the token
-      const decryptedToken = CryptoService.decryptionAES(decodeURIComponent(encryptedToken), appointmentId);
-
-      if (!decryptedToken) {
-        throw new Error('Failed to decrypt the token');
-      }
+  /**
+   * Generates a random 256-bit key for `encryptWithKey`.
+   * @returns The key as a hex string.
+   * @throws {VpageConfigError} If the runtime has no secure random number generator.
+   */
+  static generateKey() {
+    return generateKey();
+  }
 
-      // Return the base URL, appointment ID, and decrypted token
-      return { baseUrl, appointmentId, token: decryptedToken };
+  /**
+   * Decrypts an envelope produced by `encrypt` or `encryptWithKey`, checking its MAC before decrypting.
+   * @param envelope - The envelope to decrypt.
+   * @param secret - The shared secret, or the key given to `encryptWithKey`.
+   * @returns The decrypted plaintext as a string, or `undefined` if the envelope is malformed, tampered with, or the secret is wrong.
+   */
+  static decrypt(envelope: string, secret: string) {
+    try {
+      return decryptEnvelope(envelope, secret);
     } catch (error) {
-      console.error('Error decrypting WS6 URL:', error);
+      console.log("Error: Decryption failed", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a text is an envelope produced by `encrypt` or `encryptWithKey`, as opposed to a legacy `encryptionAES` ciphertext.
+   * @param text - The text to check.
+   * @returns True if the text uses the envelope format.
+   */
+  static isEnvelope(text: string) {
+    return isEnvelope(text);
+  }
+
+  /**
+   * Computes the SHA-256 hash of the given data.
+   * @param data - The data to hash, as bytes or UTF-8 text.
+   * @returns The hash as a lowercase hex string.
+   */
+  static hashSHA256(data: Uint8Array | string) {
+    const message = typeof data === 'string' ? data : toWordArray(data);
+    return SHA256(message).toString(Hex);
+  }
+
+  /**
+   * Decrypts the token from a given URL and extracts the base URL, appointment ID, and decrypted token.
+   * Use `parseOnboardingLink` to get the reason a link is rejected.
+   * @param url - The URL containing the `appointment_id` and `token_encrypt` parameters.
+   * @returns An object containing the `baseUrl`, `appointmentId`, and decrypted `token`, or `undefined` if the link is invalid or expired.
+   */
+  decryptWS6Url(url: string) {
+    const result = parseOnboardingLink(url);
+    if (!result.ok) {
+      console.error('Error decrypting WS6 URL:', new VpageDecryptionError(result.message));
       return undefined;
     }
+    const { baseUrl, appointmentId, token } = result.link;
+    return { baseUrl, appointmentId, token };
   }
 }
 
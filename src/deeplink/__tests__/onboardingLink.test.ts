@@ -0,0 +1,39 @@
+import { CryptoService } from '../../crypto';
+import { OnboardingLinkError, buildOnboardingLink, parseOnboardingLink } from '../onboardingLink';
+
+/**
+ * Builds an unsigned JWT with the given expiry.
+ * @param exp - The `exp` claim in seconds.
+ * @returns The JWT.
+ */
+function jwt(exp: number) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode({ exp })}.signature`;
+}
+
+describe('onboarding links', () => {
+  const baseUrl = 'https://vpage.test/onboarding';
+  const appointmentId = '6f1c2a9e-3b7d-4c52-9a8e-1d2f3b4c5d6e';
+
+  it.each(['envelope', 'legacy'] as const)('parses a %s link built by buildOnboardingLink', (format) => {
+    const url = buildOnboardingLink({ baseUrl, appointmentId, token: 'token-1', params: { campaign: 'spring sale' }, format });
+
+    expect(parseOnboardingLink(url)).toEqual({
+      ok: true,
+      link: { baseUrl, appointmentId, token: 'token-1', format, expiresAt: undefined, params: { campaign: 'spring sale' } },
+    });
+    expect(new CryptoService().decryptWS6Url(url)).toEqual({ baseUrl, appointmentId, token: 'token-1' });
+  });
+
+  it('rejects an expired token', () => {
+    const url = buildOnboardingLink({ baseUrl, appointmentId, token: jwt(1000) });
+
+    expect(parseOnboardingLink(url, { now: 2000 * 1000 })).toMatchObject({ ok: false, reason: OnboardingLinkError.EXPIRED });
+  });
+
+  it('rejects a token encrypted for another appointment', () => {
+    const url = buildOnboardingLink({ baseUrl, appointmentId: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d', token: 'token-1' }).replace('0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d', appointmentId);
+
+    expect(parseOnboardingLink(url)).toMatchObject({ ok: false, reason: OnboardingLinkError.DECRYPTION_FAILED });
+  });
+});
@@ -0,0 +1,194 @@
+import Base64url from 'crypto-js/enc-base64url';
+import Utf8 from 'crypto-js/enc-utf8';
+import { decryptEnvelope, decryptLegacyAES, encryptEnvelope, encryptLegacyAES, isEnvelope } from '../crypto/aes';
+
+export enum OnboardingLinkError {
+  INVALID_URL = 'INVALID_URL',
+  MISSING_APPOINTMENT_ID = 'MISSING_APPOINTMENT_ID',
+  MISSING_TOKEN = 'MISSING_TOKEN',
+  BAD_ENCODING = 'BAD_ENCODING',
+  DECRYPTION_FAILED = 'DECRYPTION_FAILED',
+  EXPIRED = 'EXPIRED',
+}
+
+export type OnboardingLink = {
+  /** The link without its query and fragment. */
+  baseUrl: string;
+  appointmentId: string;
+  /** The decrypted token. */
+  token: string;
+  /** Format of the encrypted token: the authenticated envelope or the legacy AES-CBC ciphertext. */
+  format: 'envelope' | 'legacy';
+  /** Expiry of the token in milliseconds, read from its JWT `exp` claim. */
+  expiresAt?: number;
+  /** Every parameter of the link other than `appointment_id` and `token_encrypt`, e.g. campaign or tracking parameters. */
+  params: Record<string, string>;
+};
+
+export type OnboardingLinkResult =
+  | { ok: true; link: OnboardingLink }
+  | { ok: false; reason: OnboardingLinkError; message: string };
+
+export type ParseOnboardingLinkOptions = {
+  /** Current time in milliseconds, used to check the token expiry. Default is `Date.now()`. */
+  now?: number;
+};
+
+export type BuildOnboardingLinkOptions = {
+  baseUrl: string;
+  appointmentId: string;
+  token: string;
+  /** Additional parameters appended to the link. */
+  params?: Record<string, string>;
+  /** Encrypts the token with the legacy format, to test links generated before the migration. Default is `envelope`. */
+  format?: 'envelope' | 'legacy';
+};
+
+const APPOINTMENT_ID_PARAM = 'appointment_id';
+const TOKEN_PARAM = 'token_encrypt';
+
+/**
+ * Builds a failed parse result.
+ * @param reason - The reason the link was rejected.
+ * @param message - A description of the failure.
+ * @returns The failed result.
+ */
+function failure(reason: OnboardingLinkError, message: string): OnboardingLinkResult {
+  return { ok: false, reason, message };
+}
+
+/**
+ * Reads the parameters of a query string, e.g. `a=1&b=2`.
+ * Values are kept raw, they are decoded by the caller.
+ * @param query - The query string, without the leading `?`.
+ * @param params - The object to add the parameters to. Parameters already present are kept.
+ */
+function readQuery(query: string, params: Record<string, string>) {
+  for (const pair of query.split('&')) {
+    if (!pair) {
+      continue;
+    }
+    const index = pair.indexOf('=');
+    const key = index === -1 ? pair : pair.slice(0, index);
+    const value = index === -1 ? '' : pair.slice(index + 1);
+    if (!(key in params)) {
+      params[key] = value;
+    }
+  }
+}
+
+/**
+ * Decodes the encrypted token parameter.
+ * Tokens sent through SMS or email are sometimes encoded twice, or have their `+` turned into spaces.
+ * @param value - The raw parameter value.
+ * @returns The encrypted token.
+ */
+function decodeToken(value: string) {
+  let token = decodeURIComponent(value);
+  if (/%[0-9A-Fa-f]{2}/.test(token)) {
+    token = decodeURIComponent(token);
+  }
+  return token.replace(/ /g, '+');
+}
+
+/**
+ * Reads the expiry of a token from its JWT `exp` claim.
+ * @param token - The decrypted token.
+ * @returns The expiry in milliseconds, or `undefined` if the token is not a JWT or has no expiry.
+ */
+function getTokenExpiry(token: string) {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(Base64url.parse(parts[1]).toString(Utf8));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses and validates an onboarding link received from SMS, email or a universal link.
+ * Parameters are read from the query and from a fragment route, e.g. `https://host/#/kyc?appointment_id=...`.
+ * @param url - The link.
+ * @param options - (Optional) Parse options.
+ * @returns The parsed link, or the reason it was rejected.
+ */
+export function parseOnboardingLink(url: string, options: ParseOnboardingLinkOptions = {}): OnboardingLinkResult {
+  const match = url.trim().match(/^([^?#]+)(?:\?([^#]*))?(?:#(.*))?$/);
+  if (!match) {
+    return failure(OnboardingLinkError.INVALID_URL, 'Invalid URL');
+  }
+  const [, baseUrl, query = '', fragment = ''] = match;
+
+  const rawParams: Record<string, string> = {};
+  readQuery(query, rawParams);
+  const fragmentQuery = fragment.indexOf('?');
+  if (fragmentQuery !== -1) {
+    readQuery(fragment.slice(fragmentQuery + 1), rawParams);
+  }
+
+  const params: Record<string, string> = {};
+  let appointmentId: string;
+  let encryptedToken: string;
+  try {
+    for (const key of Object.keys(rawParams)) {
+      if (key !== APPOINTMENT_ID_PARAM && key !== TOKEN_PARAM) {
+        params[decodeURIComponent(key)] = decodeURIComponent(rawParams[key].replace(/\+/g, ' '));
+      }
+    }
+    appointmentId = decodeURIComponent(rawParams[APPOINTMENT_ID_PARAM] || '').trim();
+    encryptedToken = decodeToken(rawParams[TOKEN_PARAM] || '');
+  } catch {
+    return failure(OnboardingLinkError.BAD_ENCODING, 'Link parameters are not correctly URL encoded');
+  }
+
+  if (!appointmentId) {
+    return failure(OnboardingLinkError.MISSING_APPOINTMENT_ID, `Missing required parameter: ${APPOINTMENT_ID_PARAM}`);
+  }
+  if (!encryptedToken) {
+    return failure(OnboardingLinkError.MISSING_TOKEN, `Missing required parameter: ${TOKEN_PARAM}`);
+  }
+
+  const format = isEnvelope(encryptedToken) ? 'envelope' : 'legacy';
+  if (format === 'legacy' && !/^[A-Za-z0-9+/]+={0,2}$/.test(encryptedToken)) {
+    return failure(OnboardingLinkError.BAD_ENCODING, 'Token is not valid base64');
+  }
+  let token: string;
+  try {
+    token = format === 'envelope'
+      ? decryptEnvelope(encryptedToken, appointmentId)
+      : decryptLegacyAES(encryptedToken, appointmentId);
+  } catch {
+    token = '';
+  }
+  if (!token) {
+    return failure(OnboardingLinkError.DECRYPTION_FAILED, 'Failed to decrypt the token');
+  }
+
+  const expiresAt = getTokenExpiry(token);
+  if (expiresAt !== undefined && expiresAt <= (options.now ?? Date.now())) {
+    return failure(OnboardingLinkError.EXPIRED, `Token expired at ${new Date(expiresAt).toISOString()}`);
+  }
+
+  return { ok: true, link: { baseUrl, appointmentId, token, format, expiresAt, params } };
+}
+
+/**
+ * Builds an onboarding link, e.g. to generate valid links in QA tools and tests.
+ * @param options - The link base URL, appointment ID, token and additional parameters.
+ * @returns The link.
+ * @throws {VpageConfigError} If the runtime has no secure random number generator to encrypt the token.
+ */
+export function buildOnboardingLink(options: BuildOnboardingLinkOptions) {
+  const { baseUrl, appointmentId, token, params = {}, format = 'envelope' } = options;
+  const encryptedToken = format === 'envelope'
+    ? encryptEnvelope(token, appointmentId)
+    : encryptLegacyAES(token, appointmentId);
+  const query = Object.entries({ ...params, [APPOINTMENT_ID_PARAM]: appointmentId, [TOKEN_PARAM]: encryptedToken })
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${baseUrl}?${query}`;
+}
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { ApiResponse, ValidationIssue } from '../types';
+
+export enum VpageErrorKind {
+  NETWORK = 'NETWORK',
+  TIMEOUT = 'TIMEOUT',
+  HTTP = 'HTTP',
+  BUSINESS = 'BUSINESS',
+  DECRYPTION = 'DECRYPTION',
+  CONFIG = 'CONFIG',
+  VALIDATION = 'VALIDATION',
+  ABORTED = 'ABORTED',
+  AUDIT = 'AUDIT',
+}
+
+/**
+ * Base class of every error thrown by the SDK.
+ * Use `kind` (or `instanceof` on the subclasses) to branch on the failure.
+ */
+export class VpageError extends Error {
+  readonly kind: VpageErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: VpageErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'VpageError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request never reached the server or no response was received.
+ */
+export class VpageNetworkError extends VpageError {
+  constructor(message = 'Network error', cause?: unknown) {
+    super(VpageErrorKind.NETWORK, message, cause);
+    this.name = 'VpageNetworkError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class VpageTimeoutError extends VpageError {
+  constructor(message = 'Request timed out', cause?: unknown) {
+    super(VpageErrorKind.TIMEOUT, message, cause);
+    this.name = 'VpageTimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through an `AbortSignal` or `abortAll()`.
+ */
+export class VpageAbortError extends VpageError {
+  constructor(message = 'Request aborted', cause?: unknown) {
+    super(VpageErrorKind.ABORTED, message, cause);
+    this.name = 'VpageAbortError';
+  }
+}
+
+/**
+ * The server responded with a non-2xx HTTP status.
+ */
+export class VpageHttpError extends VpageError {
+  readonly httpCode: number;
+  readonly data?: unknown;
+
+  constructor(httpCode: number, message = `Request failed with status ${httpCode}`, data?: unknown, cause?: unknown) {
+    super(VpageErrorKind.HTTP, message, cause);
+    this.name = 'VpageHttpError';
+    this.httpCode = httpCode;
+    this.data = data;
+  }
+}
+
+/**
+ * The server responded successfully but the `ApiResponse` carries `status: false`.
+ */
+export class VpageBusinessError extends VpageError {
+  readonly errorCode: string;
+  readonly httpCode: number;
+  readonly response: ApiResponse<unknown>;
+
+  constructor(response: ApiResponse<unknown>) {
+    super(VpageErrorKind.BUSINESS, response.message || `Business error ${response.errorCode}`);
+    this.name = 'VpageBusinessError';
+    this.errorCode = response.errorCode;
+    this.httpCode = response.httpCode;
+    this.response = response;
+  }
+}
+
+/**
+ * A token or payload could not be decrypted.
+ */
+export class VpageDecryptionError extends VpageError {
+  constructor(message = 'Decryption failed', cause?: unknown) {
+    super(VpageErrorKind.DECRYPTION, message, cause);
+    this.name = 'VpageDecryptionError';
+  }
+}
+
+/**
+ * The SDK is misconfigured, e.g. a production environment without a base URL.
+ */
+export class VpageConfigError extends VpageError {
+  constructor(message: string) {
+    super(VpageErrorKind.CONFIG, message);
+    this.name = 'VpageConfigError';
+  }
+}
+
+/**
+ * An audit entry required as evidence could not be recorded. See `cause` for the underlying failure.
+ */
+export class VpageAuditError extends VpageError {
+  constructor(message: string, cause?: unknown) {
+    super(VpageErrorKind.AUDIT, message, cause);
+    this.name = 'VpageAuditError';
+  }
+}
+
+/**
+ * A response does not match the expected DTO.
+ */
+export class VpageValidationError extends VpageError {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(VpageErrorKind.VALIDATION, `${message}: ${issues.map((issue) => `${issue.path} expected ${issue.expected}, received ${issue.received}`).join('; ')}`);
+    this.name = 'VpageValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks whether a value is an error thrown by the SDK.
+ * @param error - The value to check.
+ * @returns True if the value is a VpageError.
+ */
+export function isVpageError(error: unknown): error is VpageError {
+  return error instanceof VpageError;
+}
+
+/**
+ * Converts any error raised while sending a request into a VpageError.
+ * @param error - The error to convert.
+ * @returns The matching VpageError subclass, or the error itself if it already is one.
+ */
+export function toVpageError(error: unknown): VpageError {
+  if (isVpageError(error)) {
+    return error;
+  }
+  if (axios.isCancel(error)) {
+    return new VpageAbortError(undefined, error);
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new VpageTimeoutError(error.message, error);
+    }
+    if (error.response) {
+      return new VpageHttpError(error.response.status, error.message, error.response.data, error);
+    }
+    return new VpageNetworkError(error.message, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new VpageNetworkError(message, error);
+}
@@ -1,6 +1,13 @@
 export * from './api';
+export * from './audit';
+export * from './contracts';
 export * from './crypto';
+export * from './deeplink';
+export * from './errors';
+export * from './session';
+export * from './storage';
 export * from './vekyc';
 export * from './websocket';
 export * from './types';
-// export * from './utils';
+export * from './utils';
+export * from './validation';
@@ -0,0 +1,49 @@
+import { VpageDecryptionError } from '../../errors';
+import { createMemoryStorage } from '../../storage';
+import { StorageAdapter } from '../../types';
+import { createSessionStore } from '../sessionStore';
+
+describe('SessionStore', () => {
+  const storageKey = '@vpage/session';
+
+  let storage: StorageAdapter;
+  let keyStorage: StorageAdapter;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    keyStorage = createMemoryStorage();
+  });
+
+  it('restores the values with the saved key', async () => {
+    await createSessionStore({ storage, keyStorage }).set('token', 'secret-token');
+
+    expect(await createSessionStore({ storage, keyStorage }).get('token')).toBe('secret-token');
+  });
+
+  it('keeps the stored values when the key is missing, until wiped', async () => {
+    await createSessionStore({ storage, keyStorage }).set('token', 'secret-token');
+    await keyStorage.removeItem(`${storageKey}-key`);
+    const envelope = await storage.getItem(storageKey);
+    const store = createSessionStore({ storage, keyStorage });
+
+    await expect(store.get('token')).rejects.toBeInstanceOf(VpageDecryptionError);
+    await expect(store.set('socketToken', 'socket-token')).rejects.toBeInstanceOf(VpageDecryptionError);
+    expect(await storage.getItem(storageKey)).toBe(envelope);
+
+    await store.wipe();
+    await store.set('socketToken', 'socket-token');
+    expect(await store.get('socketToken')).toBe('socket-token');
+  });
+
+  it('does not use a generated key that could not be saved, and retries on the next call', async () => {
+    const setItem = jest.spyOn(keyStorage, 'setItem').mockRejectedValueOnce(new Error('Keychain unavailable'));
+    const store = createSessionStore({ storage, keyStorage });
+
+    await expect(store.set('token', 'secret-token')).rejects.toThrow('Keychain unavailable');
+    expect(await storage.getItem(storageKey)).toBeNull();
+
+    await store.set('token', 'secret-token');
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(await createSessionStore({ storage, keyStorage }).get('token')).toBe('secret-token');
+  });
+});
@@ -0,0 +1,232 @@
+import { CryptoService } from '../crypto';
+import { VpageDecryptionError } from '../errors';
+import { createMemoryStorage, createSecureStorage } from '../storage';
+import { CreateMeetingDto, StorageAdapter, TokenProvider } from '../types';
+
+export type SessionSecrets = {
+  appointmentId: string;
+  /** Token decrypted from the onboarding link. */
+  token: string;
+  /** RTC token, `CreateMeetingDto.code`. */
+  rtcToken: string;
+  /** RTC channel name, `CreateMeetingDto.key`. */
+  channelName: string;
+  /** RTC user ID, `CreateMeetingDto.subId`. */
+  subId: string;
+  /** Token sent in the STOMP connect headers. */
+  socketToken: string;
+};
+
+export type SessionStoreOptions = {
+  /** Storage keeping the encrypted values. Default is in-memory storage. */
+  storage?: StorageAdapter;
+  /** Storage keeping the encryption key. Default is the Keychain or Keystore when available, see `createSecureStorage`. */
+  keyStorage?: StorageAdapter;
+  storageKey?: string;
+  /** Time to live of the values in milliseconds. Default is 30 minutes. */
+  ttl?: number;
+};
+
+type StoredValue = {
+  value: string;
+  expiresAt: number;
+};
+
+type StoredValues = Partial<Record<keyof SessionSecrets, StoredValue>>;
+
+/**
+ * SessionStore keeps the secrets of a session, encrypted at rest with `CryptoService.encryptWithKey`.
+ * Values expire after their time to live and are wiped on session teardown.
+ * The encryption key is generated on first use and kept in the key storage, apart from the values.
+ * Every method rejects while the stored values cannot be loaded, e.g. because the key storage fails or the key was lost; `wipe` starts over.
+ */
+class SessionStore {
+  private storage: StorageAdapter;
+  private keyStorage: StorageAdapter;
+  private storageKey: string;
+  private ttl: number;
+  private values: StoredValues = {};
+  private secret?: string;
+  private ready?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates an instance of SessionStore.
+   * @param options - (Optional) Storage and expiry options.
+   */
+  constructor(options: SessionStoreOptions = {}) {
+    this.storage = options.storage || createMemoryStorage();
+    this.keyStorage = options.keyStorage || createSecureStorage();
+    this.storageKey = options.storageKey || '@vpage/session';
+    this.ttl = options.ttl ?? 30 * 60 * 1000;
+  }
+
+  /**
+   * Stores a value, replacing the previous one.
+   * @param key - The name of the value.
+   * @param value - The value to store.
+   * @param ttl - (Optional) Time to live of the value in milliseconds. Default is the store time to live.
+   */
+  async set<K extends keyof SessionSecrets>(key: K, value: SessionSecrets[K], ttl = this.ttl): Promise<void> {
+    await this.load();
+    this.values[key] = { value, expiresAt: Date.now() + ttl };
+    await this.persist();
+  }
+
+  /**
+   * Stores the secrets of a meeting: the RTC token, channel name and user ID.
+   * @param meeting - The meeting returned by `createMeeting`.
+   * @param ttl - (Optional) Time to live of the values in milliseconds. Default is the store time to live.
+   */
+  async saveMeeting(meeting: CreateMeetingDto, ttl = this.ttl): Promise<void> {
+    await this.load();
+    const expiresAt = Date.now() + ttl;
+    this.values.rtcToken = { value: meeting.code, expiresAt };
+    this.values.channelName = { value: meeting.key, expiresAt };
+    this.values.subId = { value: meeting.subId, expiresAt };
+    await this.persist();
+  }
+
+  /**
+   * Gets a value.
+   * @param key - The name of the value.
+   * @returns A promise resolving to the value, or `undefined` if it is missing or expired.
+   */
+  async get<K extends keyof SessionSecrets>(key: K): Promise<SessionSecrets[K] | undefined> {
+    await this.load();
+    const stored = this.values[key];
+    if (!stored) {
+      return undefined;
+    }
+    if (stored.expiresAt <= Date.now()) {
+      delete this.values[key];
+      await this.persist();
+      return undefined;
+    }
+    return stored.value;
+  }
+
+  /**
+   * Removes a value.
+   * @param key - The name of the value.
+   */
+  async remove(key: keyof SessionSecrets): Promise<void> {
+    await this.load();
+    delete this.values[key];
+    await this.persist();
+  }
+
+  /**
+   * Creates a token provider reading a value from the store, e.g. to pass to `SocketService.initialize`.
+   * @param key - The name of the value. Default is `socketToken`.
+   * @returns The token provider.
+   */
+  tokenProvider(key: keyof SessionSecrets = 'socketToken'): TokenProvider {
+    return () => this.get(key);
+  }
+
+  /**
+   * Removes every value and the encryption key. Call it on session teardown.
+   */
+  async wipe(): Promise<void> {
+    this.values = {};
+    this.secret = undefined;
+    this.ready = undefined;
+    this.writing = this.writing.then(async () => {
+      try {
+        await this.storage.removeItem(this.storageKey);
+        await this.keyStorage.removeItem(`${this.storageKey}-key`);
+      } catch (error) {
+        console.error('Error wiping session store:', error);
+      }
+    });
+    await this.writing;
+  }
+
+  /**
+   * Loads the encryption key and the stored values once.
+   * If loading fails, the returned promise rejects and the next call tries again.
+   */
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.restore().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Reads the encryption key, generating it if there are no stored values yet, then decrypts the stored values.
+   * Stored values are never removed here: if they cannot be decrypted, e.g. because the key was lost, it rejects until `wipe` is called.
+   * @throws {VpageDecryptionError} If the stored values cannot be decrypted.
+   */
+  private async restore(): Promise<void> {
+    await this.writing;
+    const keyName = `${this.storageKey}-key`;
+    const envelope = await this.storage.getItem(this.storageKey);
+    let secret = (await this.keyStorage.getItem(keyName)) || undefined;
+    if (!secret) {
+      if (envelope) {
+        throw new VpageDecryptionError('The session encryption key is missing. Call wipe() to discard the stored values.');
+      }
+      // Only use the key once it is saved, so values are never encrypted with a key that is lost on restart
+      const generated = CryptoService.generateKey();
+      await this.keyStorage.setItem(keyName, generated);
+      secret = generated;
+    }
+    if (envelope) {
+      const decrypted = CryptoService.decrypt(envelope, secret);
+      if (!decrypted) {
+        throw new VpageDecryptionError('The stored session values cannot be decrypted. Call wipe() to discard them.');
+      }
+      this.values = JSON.parse(decrypted);
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Removes the expired values, then writes the others encrypted. Writes are applied in order.
+   */
+  private async persist(): Promise<void> {
+    const now = Date.now();
+    (Object.keys(this.values) as (keyof SessionSecrets)[]).forEach((key) => {
+      if (this.values[key]!.expiresAt <= now) {
+        delete this.values[key];
+      }
+    });
+    const values = { ...this.values };
+    const secret = this.secret;
+    this.writing = this.writing.then(async () => {
+      try {
+        if (!secret) {
+          return;
+        }
+        if (Object.keys(values).length === 0) {
+          await this.storage.removeItem(this.storageKey);
+          return;
+        }
+        const envelope = CryptoService.encryptWithKey(JSON.stringify(values), secret);
+        if (envelope) {
+          await this.storage.setItem(this.storageKey, envelope);
+        }
+      } catch (error) {
+        console.error('Error persisting session store:', error);
+      }
+    });
+    await this.writing;
+  }
+}
+
+/**
+ * Creates and returns a new instance of SessionStore.
+ * @param options - (Optional) Storage and expiry options.
+ * @returns A new instance of SessionStore.
+ */
+export function createSessionStore(options?: SessionStoreOptions) {
+  return new SessionStore(options);
+}
+
+// Export for external use
+export type { SessionStore };
@@ -0,0 +1,79 @@
+import Base64 from 'crypto-js/enc-base64';
+import { FileStore } from '../types';
+import { toWordArray } from '../utils/bytes';
+
+/**
+ * Encodes bytes as base64.
+ * @param data - The bytes to encode.
+ * @returns The base64 string.
+ */
+function toBase64(data: Uint8Array) {
+  return Base64.stringify(toWordArray(data));
+}
+
+/**
+ * Creates a file store keeping files in memory as data URIs. Files are lost when the app is killed.
+ * @returns A new in-memory file store.
+ */
+export function createMemoryFileStore(): FileStore {
+  return {
+    async write(_name, data, mimeType) {
+      return `data:${mimeType};base64,${toBase64(data)}`;
+    },
+    async remove() {},
+  };
+}
+
+/**
+ * Creates a file store writing files to the cache directory of the device.
+ *
+ * This method attempts to use the following libraries in order:
+ * 1. `react-native-fs` - Ensure this library is installed if you want to use it.
+ * 2. `expo-file-system` - Used as a fallback if `react-native-fs` is not available.
+ *
+ * If neither library is available, it falls back to the in-memory file store.
+ * @returns A new file store.
+ */
+export function createDeviceFileStore(): FileStore {
+  try {
+    // Try react-native-fs first
+    const RNFS = require('react-native-fs');
+    if (RNFS && RNFS.CachesDirectoryPath) {
+      return {
+        async write(name, data) {
+          const path = `${RNFS.CachesDirectoryPath}/${name}`;
+          await RNFS.writeFile(path, toBase64(data), 'base64');
+          return `file://${path}`;
+        },
+        async remove(uri) {
+          const path = uri.replace(/^file:\/\//, '');
+          if (await RNFS.exists(path)) {
+            await RNFS.unlink(path);
+          }
+        },
+      };
+    }
+  } catch (e) {
+    console.warn('react-native-fs not available:', e);
+  }
+  try {
+    // Fallback to expo-file-system
+    const FileSystem = require('expo-file-system');
+    if (FileSystem && FileSystem.cacheDirectory) {
+      return {
+        async write(name, data) {
+          const uri = `${FileSystem.cacheDirectory}${name}`;
+          await FileSystem.writeAsStringAsync(uri, toBase64(data), { encoding: 'base64' });
+          return uri;
+        },
+        async remove(uri) {
+          await FileSystem.deleteAsync(uri, { idempotent: true });
+        },
+      };
+    }
+  } catch (e) {
+    console.warn('expo-file-system not available:', e);
+  }
+  // Final fallback
+  return createMemoryFileStore();
+}
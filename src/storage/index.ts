@@ -0,0 +1,3 @@
+export * from './memoryStorage';
+export * from './fileStore';
+export * from './secureStorage';
@@ -0,0 +1,20 @@
+import { StorageAdapter } from '../types';
+
+/**
+ * Creates a storage adapter keeping values in memory. Values are lost when the app is killed.
+ * @returns A new in-memory storage adapter.
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>();
+  return {
+    async getItem(key) {
+      return items.has(key) ? items.get(key)! : null;
+    },
+    async setItem(key, value) {
+      items.set(key, value);
+    },
+    async removeItem(key) {
+      items.delete(key);
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { StorageAdapter } from '../types';
+import { createMemoryStorage } from './memoryStorage';
+
+/**
+ * Creates a storage adapter backed by the iOS Keychain or the Android Keystore.
+ *
+ * This method attempts to use the following libraries in order:
+ * 1. `react-native-keychain` - Ensure this library is installed if you want to use it.
+ * 2. `react-native-encrypted-storage` - Used as a fallback if `react-native-keychain` is not available.
+ *
+ * If neither library is available, it falls back to in-memory storage, so values are lost when the app is killed.
+ * @returns A new storage adapter.
+ */
+export function createSecureStorage(): StorageAdapter {
+  try {
+    // Try react-native-keychain first
+    const Keychain = require('react-native-keychain');
+    if (Keychain && Keychain.setGenericPassword) {
+      return {
+        async getItem(key) {
+          const credentials = await Keychain.getGenericPassword({ service: key });
+          return credentials ? credentials.password : null;
+        },
+        async setItem(key, value) {
+          await Keychain.setGenericPassword(key, value, { service: key });
+        },
+        async removeItem(key) {
+          await Keychain.resetGenericPassword({ service: key });
+        },
+      };
+    }
+  } catch (e) {
+    console.warn('react-native-keychain not available:', e);
+  }
+  try {
+    // Fallback to react-native-encrypted-storage
+    const EncryptedStorage = require('react-native-encrypted-storage');
+    const storage = EncryptedStorage?.default || EncryptedStorage;
+    if (storage && storage.setItem) {
+      return {
+        async getItem(key) {
+          return (await storage.getItem(key)) ?? null;
+        },
+        async setItem(key, value) {
+          await storage.setItem(key, value);
+        },
+        async removeItem(key) {
+          await storage.removeItem(key);
+        },
+      };
+    }
+  } catch (e) {
+    console.warn('react-native-encrypted-storage not available:', e);
+  }
+  // Final fallback
+  return createMemoryStorage();
+}
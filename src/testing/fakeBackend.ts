@@ -0,0 +1,250 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { APIClientOptions } from '../types';
+import { Endpoints, EnvironmentOptions, createEnvironment } from '../utils/environment';
+import { fixtures, ok } from './fixtures';
+
+export type FakeRoute = keyof Endpoints;
+
+export type FakeRequest = {
+  route: FakeRoute;
+  method: string;
+  path: string;
+  /** Values of the dynamic path parameters, e.g. `{ id: 'appointment-1' }`. */
+  ids: Record<string, string>;
+  params: Record<string, any>;
+  data: any;
+  headers: Record<string, string>;
+};
+
+export type FakeReply = {
+  /** HTTP status of the reply. Default is 200. */
+  status?: number;
+  body?: unknown;
+  /** Delay before replying in milliseconds. The request times out if it exceeds the client timeout. */
+  delay?: number;
+  /** Fails the request without a response instead of replying. */
+  error?: 'network' | 'timeout';
+};
+
+export type FakeHandler = (req: FakeRequest) => FakeReply | Promise<FakeReply>;
+
+type CompiledRoute = {
+  route: FakeRoute;
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+};
+
+const methods: Record<FakeRoute, string> = {
+  GET_CONFIG_INFO: 'get',
+  CREATE_MEETING: 'post',
+  SAVE_LOG: 'post',
+  SUBMIT: 'post',
+  VERIFY_OTP: 'post',
+  RESEND_OTP: 'post',
+  CHECK_SELF_KYC: 'get',
+  HOOK: 'post',
+  CLOSE_VIDEO: 'post',
+  RATING: 'post',
+  GET_CONTRACT_LIST: 'get',
+  GET_CONTRACT_URL: 'get',
+  CONFIRM_CONTRACT: 'post',
+};
+
+const defaultHandlers: Record<FakeRoute, FakeHandler> = {
+  GET_CONFIG_INFO: () => ({ body: ok(fixtures.config()) }),
+  CREATE_MEETING: () => ({ body: ok(fixtures.meeting()) }),
+  SAVE_LOG: () => ({ body: ok() }),
+  SUBMIT: () => ({ body: ok(fixtures.submit()) }),
+  VERIFY_OTP: () => ({ body: ok(fixtures.verifyOtp()) }),
+  RESEND_OTP: () => ({ body: ok(fixtures.resendOtp()) }),
+  CHECK_SELF_KYC: () => ({ body: ok(fixtures.selfKyc()) }),
+  HOOK: () => ({ body: ok() }),
+  CLOSE_VIDEO: () => ({ body: ok() }),
+  RATING: () => ({ body: ok() }),
+  GET_CONTRACT_LIST: () => ({ body: ok(fixtures.contracts()) }),
+  GET_CONTRACT_URL: () => ({ body: ok(fixtures.contractURL()) }),
+  CONFIRM_CONTRACT: () => ({ body: ok() }),
+};
+
+/**
+ * FakeVekycBackend implements every route of the environment in memory, as an Axios adapter.
+ * Every route answers with a successful fixture by default, and can be scripted with `on` and `once`.
+ */
+class FakeVekycBackend {
+  private baseURL: string;
+  private routes: CompiledRoute[];
+  private handlers: Partial<Record<FakeRoute, FakeHandler>> = {};
+  private onceHandlers: Partial<Record<FakeRoute, FakeHandler[]>> = {};
+  private requests: FakeRequest[] = [];
+
+  /**
+   * Creates an instance of FakeVekycBackend.
+   * @param environment - (Optional) The environment to serve, e.g. to test overridden endpoint paths.
+   */
+  constructor(environment: EnvironmentOptions = {}) {
+    const env = createEnvironment({ baseURL: 'https://vekyc.test', ...environment });
+    this.baseURL = env.baseURL;
+    this.routes = (Object.keys(env.endpoints) as FakeRoute[]).map((route) => {
+      const keys: string[] = [];
+      const source = env.endpoints[route].replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/?]+)';
+      });
+      return { route, method: methods[route], pattern: new RegExp(`^${source}$`), keys };
+    });
+  }
+
+  /**
+   * The Axios adapter serving the requests.
+   */
+  adapter: AxiosAdapter = async (config) => {
+    const req = this.toRequest(config);
+    if (!req) {
+      return this.respond(config, { status: 404, body: { message: `No route for ${config.method} ${config.url}` } });
+    }
+    this.requests.push(req);
+    const queue = this.onceHandlers[req.route];
+    const handler = queue?.shift() || this.handlers[req.route] || defaultHandlers[req.route];
+    const reply = await handler(req);
+    const timedOut = !!config.timeout && (reply.delay ?? 0) > config.timeout;
+    if (reply.delay) {
+      await this.wait(timedOut ? config.timeout! : reply.delay, config);
+    }
+    if (config.signal?.aborted) {
+      throw new CanceledError(undefined, undefined, config);
+    }
+    if (timedOut || reply.error === 'timeout') {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+    }
+    if (reply.error === 'network') {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+    }
+    return this.respond(config, reply);
+  };
+
+  /**
+   * Gets client options pointing an APIService at this backend.
+   * @param options - (Optional) Additional client options.
+   * @returns The client options.
+   */
+  apiClientOptions(options: APIClientOptions = {}): APIClientOptions {
+    return { ...options, baseURL: this.baseURL, adapter: this.adapter };
+  }
+
+  /**
+   * Scripts the reply of a route for every following request.
+   * @param route - The route to script.
+   * @param reply - The reply, or a handler computing it from the request.
+   */
+  on(route: FakeRoute, reply: FakeReply | FakeHandler) {
+    this.handlers[route] = typeof reply === 'function' ? reply : () => reply;
+  }
+
+  /**
+   * Scripts the reply of a route for the next request only. Calls queue up in order.
+   * @param route - The route to script.
+   * @param reply - The reply, or a handler computing it from the request.
+   */
+  once(route: FakeRoute, reply: FakeReply | FakeHandler) {
+    const queue = this.onceHandlers[route] || (this.onceHandlers[route] = []);
+    queue.push(typeof reply === 'function' ? reply : () => reply);
+  }
+
+  /**
+   * Gets the requests received so far.
+   * @param route - (Optional) Only returns the requests of this route.
+   * @returns The received requests, in order.
+   */
+  getRequests(route?: FakeRoute) {
+    return route ? this.requests.filter((req) => req.route === route) : [...this.requests];
+  }
+
+  /**
+   * Removes every scripted reply and recorded request.
+   */
+  reset() {
+    this.handlers = {};
+    this.onceHandlers = {};
+    this.requests = [];
+  }
+
+  /**
+   * Matches an Axios request against the routes.
+   * @param config - The Axios request configuration.
+   * @returns The matched request, or `undefined` if no route matches.
+   */
+  private toRequest(config: InternalAxiosRequestConfig): FakeRequest | undefined {
+    const method = (config.method || 'get').toLowerCase();
+    const path = (config.url || '').replace(this.baseURL, '').split('?')[0];
+    for (const route of this.routes) {
+      const match = route.method === method && path.match(route.pattern);
+      if (match) {
+        const ids: Record<string, string> = {};
+        route.keys.forEach((key, index) => {
+          ids[key] = decodeURIComponent(match[index + 1]);
+        });
+        return {
+          route: route.route,
+          method,
+          path,
+          ids,
+          params: config.params || {},
+          data: typeof config.data === 'string' ? JSON.parse(config.data) : config.data,
+          headers: { ...(config.headers?.toJSON?.() as Record<string, string>) },
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Builds the Axios response, rejecting it like Axios does when the status is not valid.
+   * @param config - The Axios request configuration.
+   * @param reply - The reply to send.
+   * @returns The Axios response.
+   */
+  private respond(config: InternalAxiosRequestConfig, reply: FakeReply): AxiosResponse {
+    const status = reply.status ?? 200;
+    const response: AxiosResponse = {
+      data: reply.body,
+      status,
+      statusText: String(status),
+      headers: {},
+      config,
+      request: {},
+    };
+    if (config.validateStatus && !config.validateStatus(status)) {
+      const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+      throw new AxiosError(`Request failed with status code ${status}`, code, config, {}, response);
+    }
+    return response;
+  }
+
+  /**
+   * Waits before replying, stopping early if the request is cancelled.
+   * @param ms - The delay in milliseconds.
+   * @param config - The Axios request configuration.
+   */
+  private wait(ms: number, config: InternalAxiosRequestConfig) {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      (config.signal as AbortSignal | undefined)?.addEventListener?.('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
+
+/**
+ * Creates and returns a new instance of FakeVekycBackend.
+ * @param environment - (Optional) The environment to serve.
+ * @returns A new instance of FakeVekycBackend.
+ */
+export function createFakeVekycBackend(environment?: EnvironmentOptions) {
+  return new FakeVekycBackend(environment);
+}
+
+// Export for external use
+export type { FakeVekycBackend };
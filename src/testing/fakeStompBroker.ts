@@ -0,0 +1,298 @@
+import { FrameImpl, IStompSocket, Parser, StompHeaders, StompSocketState } from '@stomp/stompjs';
+import { SocketTransport } from '../websocket/transport';
+
+export type FakeStompFrame = {
+  command: string;
+  headers: StompHeaders;
+  body: string;
+};
+
+export type FakeStompSession = {
+  /** Socket ID the client connected with. */
+  socketId: string;
+  connectHeaders: StompHeaders;
+  connected: boolean;
+};
+
+/**
+ * Handles a frame sent by a client to an application destination, e.g. `/app/healthCheck`.
+ */
+export type FakeSendHandler = (frame: FakeStompFrame, session: FakeStompSession, broker: FakeStompBroker) => void;
+
+/**
+ * Socket connected to the in-memory broker, implementing the interface stompjs expects from a WebSocket.
+ */
+class FakeStompSocket implements IStompSocket {
+  url: string;
+  onclose: ((ev?: any) => any) | undefined | null;
+  onerror: ((ev: any) => any) | undefined | null;
+  onmessage: ((ev: any) => any) | undefined | null;
+  onopen: ((ev?: any) => any) | undefined | null;
+  binaryType?: string;
+  readyState: number = StompSocketState.CONNECTING;
+
+  constructor(url: string, private broker: FakeStompBroker) {
+    this.url = url;
+    setTimeout(() => {
+      if (this.readyState === StompSocketState.CONNECTING) {
+        this.readyState = StompSocketState.OPEN;
+        this.onopen?.();
+      }
+    }, 0);
+  }
+
+  send(data: any) {
+    this.broker.receive(this, typeof data === 'string' ? data : new TextDecoder().decode(data));
+  }
+
+  close() {
+    if (this.readyState === StompSocketState.CLOSED) {
+      return;
+    }
+    this.readyState = StompSocketState.CLOSED;
+    this.broker.detach(this);
+    setTimeout(() => this.onclose?.({ code: 1000, reason: 'Closed', wasClean: true }), 0);
+  }
+
+  /**
+   * Delivers a frame from the broker to the client asynchronously, like a network would.
+   * @param frame - The frame to deliver.
+   */
+  deliver(frame: FakeStompFrame) {
+    const data = FrameImpl.marshall({ command: frame.command, headers: frame.headers, body: frame.body });
+    setTimeout(() => {
+      if (this.readyState === StompSocketState.OPEN) {
+        this.onmessage?.({ data });
+      }
+    }, 0);
+  }
+
+  /**
+   * Drops the connection as a network failure would.
+   */
+  drop() {
+    if (this.readyState === StompSocketState.CLOSED) {
+      return;
+    }
+    this.readyState = StompSocketState.CLOSED;
+    this.broker.detach(this);
+    setTimeout(() => this.onclose?.({ code: 1006, reason: 'Connection lost', wasClean: false }), 0);
+  }
+}
+
+type Connection = {
+  socket: FakeStompSocket;
+  session: FakeStompSession;
+  parser: Parser;
+  subscriptions: Map<string, string>;
+};
+
+/**
+ * FakeStompBroker is an in-memory STOMP broker serving the SocketService topics.
+ * Pass its `transport` to `SocketService.initialize` to connect to it.
+ *
+ * By default it answers `/app/healthCheck` on `/user/{socketId}/health` and records `/app/network` updates.
+ */
+class FakeStompBroker {
+  private connections: Connection[] = [];
+  private sendHandlers: Record<string, FakeSendHandler> = {};
+  private sent: FakeStompFrame[] = [];
+  private nextMessageId = 1;
+
+  constructor() {
+    this.onSend('/app/healthCheck', (frame, session, broker) => {
+      broker.publish(`/user/${session.socketId}/health`, JSON.stringify({ timestamp: frame.headers.timestamp, pingId: frame.headers.pingId }));
+    });
+  }
+
+  /**
+   * Transport opening sockets connected to this broker. Pass it as `SocketOptions.transport`.
+   */
+  transport: SocketTransport = {
+    connect: (url, socketId) => this.accept(url, socketId),
+  };
+
+  /**
+   * Opens a socket connected to this broker.
+   * @param url - The URL the client connects to.
+   * @param socketId - The socket ID the client connects with.
+   * @returns The socket.
+   */
+  private accept(url: string, socketId: string): IStompSocket {
+    const socket = new FakeStompSocket(url, this);
+    const connection: Connection = {
+      socket,
+      session: { socketId, connectHeaders: {}, connected: false },
+      parser: new Parser(
+        (rawFrame) => {
+          const frame = FrameImpl.fromRawFrame(rawFrame, false);
+          this.handleFrame(connection, { command: frame.command, headers: frame.headers, body: frame.body });
+        },
+        () => {}
+      ),
+      subscriptions: new Map(),
+    };
+    this.connections.push(connection);
+    return socket;
+  }
+
+  /**
+   * Registers the handler of an application destination, replacing the previous one.
+   * @param destination - The destination, e.g. `/app/network`.
+   * @param handler - The handler called with every frame sent to the destination.
+   */
+  onSend(destination: string, handler: FakeSendHandler) {
+    this.sendHandlers[destination] = handler;
+  }
+
+  /**
+   * Sends a message to every client subscribed to a destination.
+   * @param destination - The destination, e.g. `/user/{sessionKey}/notify`.
+   * @param body - The message body.
+   * @param headers - (Optional) Additional message headers.
+   * @returns The number of subscriptions the message was delivered to.
+   */
+  publish(destination: string, body: string, headers: StompHeaders = {}) {
+    let delivered = 0;
+    for (const connection of this.connections) {
+      connection.subscriptions.forEach((subscribedDestination, id) => {
+        if (subscribedDestination === destination) {
+          connection.socket.deliver({
+            command: 'MESSAGE',
+            headers: {
+              ...headers,
+              destination,
+              subscription: id,
+              'message-id': String(this.nextMessageId++),
+              'content-type': 'application/json',
+            },
+            body,
+          });
+          delivered++;
+        }
+      });
+    }
+    return delivered;
+  }
+
+  /**
+   * Sends a message on the session notification topic.
+   * @param sessionKey - The session key the client initialized with.
+   * @param message - The message, serialized as JSON.
+   * @returns The number of subscriptions the message was delivered to.
+   */
+  notifySession(sessionKey: string, message: unknown) {
+    return this.publish(`/user/${sessionKey}/notify`, JSON.stringify(message));
+  }
+
+  /**
+   * Sends a message on the socket notification topic of a connected client.
+   * @param socketId - The socket ID of the client.
+   * @param message - The message, serialized as JSON.
+   * @returns The number of subscriptions the message was delivered to.
+   */
+  notifySocket(socketId: string, message: unknown) {
+    return this.publish(`/user/${socketId}/notify`, JSON.stringify(message));
+  }
+
+  /**
+   * Gets the sessions of the connected clients.
+   * @returns The sessions, in connection order.
+   */
+  getSessions() {
+    return this.connections.filter((connection) => connection.session.connected).map((connection) => connection.session);
+  }
+
+  /**
+   * Gets the destinations currently subscribed to.
+   * @returns The destinations of every subscription of every client.
+   */
+  getSubscriptions() {
+    return this.connections.flatMap((connection) => Array.from(connection.subscriptions.values()));
+  }
+
+  /**
+   * Gets the frames sent by clients to application destinations.
+   * @param destination - (Optional) Only returns the frames sent to this destination.
+   * @returns The frames, in order.
+   */
+  getSent(destination?: string) {
+    return destination ? this.sent.filter((frame) => frame.headers.destination === destination) : [...this.sent];
+  }
+
+  /**
+   * Drops every connection as a network failure would, letting clients reconnect.
+   */
+  dropConnections() {
+    [...this.connections].forEach((connection) => connection.socket.drop());
+  }
+
+  /**
+   * Removes every recorded frame.
+   */
+  reset() {
+    this.sent = [];
+  }
+
+  /**
+   * Parses data sent by a client socket.
+   * @param socket - The client socket.
+   * @param data - The raw data.
+   */
+  receive(socket: FakeStompSocket, data: string) {
+    const connection = this.connections.find((c) => c.socket === socket);
+    connection?.parser.parseChunk(data, true);
+  }
+
+  /**
+   * Removes a closed client socket.
+   * @param socket - The client socket.
+   */
+  detach(socket: FakeStompSocket) {
+    this.connections = this.connections.filter((c) => c.socket !== socket);
+  }
+
+  /**
+   * Handles a frame sent by a client.
+   * @param connection - The client connection.
+   * @param frame - The frame.
+   */
+  private handleFrame(connection: Connection, frame: FakeStompFrame) {
+    const { socket, session, subscriptions } = connection;
+    switch (frame.command) {
+      case 'CONNECT':
+      case 'STOMP':
+        session.connectHeaders = frame.headers;
+        session.connected = true;
+        socket.deliver({ command: 'CONNECTED', headers: { version: '1.2', 'heart-beat': '0,0' }, body: '' });
+        break;
+      case 'SUBSCRIBE':
+        subscriptions.set(frame.headers.id, frame.headers.destination);
+        break;
+      case 'UNSUBSCRIBE':
+        subscriptions.delete(frame.headers.id);
+        break;
+      case 'SEND':
+        this.sent.push(frame);
+        this.sendHandlers[frame.headers.destination]?.(frame, session, this);
+        break;
+      case 'DISCONNECT':
+        session.connected = false;
+        break;
+    }
+    if (frame.headers.receipt) {
+      socket.deliver({ command: 'RECEIPT', headers: { 'receipt-id': frame.headers.receipt }, body: '' });
+    }
+  }
+}
+
+/**
+ * Creates and returns a new instance of FakeStompBroker.
+ * @returns A new instance of FakeStompBroker.
+ */
+export function createFakeStompBroker() {
+  return new FakeStompBroker();
+}
+
+// Export for external use
+export type { FakeStompBroker };
@@ -0,0 +1,99 @@
+import { ApiResponse, CheckSelfKycDto, ConfigDto, ContractDto, ContractURLDto, CreateMeetingDto, ResendOTPDto, SubmitDto, VerifyOTPDto } from '../types';
+
+/**
+ * Builds a successful API response.
+ * @param data - (Optional) The response data.
+ * @returns The API response.
+ */
+export function ok<T>(data?: T): ApiResponse<T> {
+  return { status: true, message: 'Success', httpCode: 200, errorCode: '', data };
+}
+
+/**
+ * Builds a business failure API response.
+ * @param errorCode - The business error code.
+ * @param message - (Optional) The error message.
+ * @param httpCode - (Optional) The HTTP code carried in the response. Default is 400.
+ * @returns The API response.
+ */
+export function fail(errorCode: string, message = 'Error', httpCode = 400): ApiResponse<undefined> {
+  return { status: false, message, httpCode, errorCode };
+}
+
+export const fixtures = {
+  config: (): ConfigDto => ({
+    campaignName: 'Test campaign',
+    campaignCode: 'TEST',
+    templateSMSCodes: [],
+    steps: [1, 2, 3],
+    authMethod: 'OTP',
+    ocrApi: '',
+    partner: {
+      id: 1,
+      shortName: 'TEST',
+      code: 'TEST',
+      logo: '',
+      phoneNumber: '',
+      email: '',
+      note: '',
+      fullName: 'Test partner',
+      address: '',
+      status: 'ACTIVE',
+    },
+    campaignMonitor: {
+      monitorWelcome: '',
+      monitorNotifiesAgentBusy: '',
+      monitorDisconnect: '',
+      monitorKycResult: '',
+      avatarAgent: '',
+      background: '',
+      baseColor: '#000000',
+    },
+    redirectUrl: '',
+    callBackground: '',
+    agentBackground: '',
+    camMode: 'user',
+  }),
+  meeting: (): CreateMeetingDto => ({
+    sessionId: 'session-1',
+    key: 'channel-1',
+    code: 'rtc-token-1',
+    webcamToken: '',
+    screenToken: '',
+    subId: '1001',
+  }),
+  submit: (now = Date.now()): SubmitDto => ({
+    currentTime: now,
+    expiredTime: now + 60000,
+    numberLimit: 3,
+    count: 1,
+    transactionId: 'transaction-1',
+    description: '',
+    contractId: 'contract-1',
+    appointmentId: 'appointment-1',
+  }),
+  verifyOtp: (): VerifyOTPDto => ({
+    numberLimit: 3,
+    token: 'token-1',
+    status: true,
+    sessionVideoDto: fixtures.meeting(),
+  }),
+  resendOtp: (now = Date.now()): ResendOTPDto => ({
+    currentTime: now,
+    expiredTime: now + 60000,
+    numberLimit: 3,
+    count: 2,
+    transactionId: 'transaction-2',
+  }),
+  selfKyc: (): CheckSelfKycDto => ({
+    registrationType: 'VIDEO_CALL',
+    isSelfKyc: false,
+  }),
+  contracts: (): ContractDto[] => [
+    { name: 'Contract', url: 'https://example.com/contract.pdf', fileType: 'pdf' },
+  ],
+  contractURL: (): ContractURLDto => ({
+    systemNameLogo: '',
+    originalNameLogo: '',
+  }),
+};
@@ -0,0 +1,3 @@
+export * from './fakeBackend';
+export * from './fakeStompBroker';
+export * from './fixtures';
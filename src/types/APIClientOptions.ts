@@ -1,6 +1,21 @@
+import { AxiosAdapter } from 'axios';
+import { RetryPolicy } from './RetryPolicy';
+import { TokenProvider, UnauthorizedHandler } from './TokenProvider';
+import { EnvironmentOptions, EnvironmentPreset } from '../utils/environment';
+import { ValidationMode } from '../validation/validationMode';
+
 export type APIClientOptions = {
+  /** Overrides the base URL of the environment. */
   baseURL?: string;
+  environment?: EnvironmentPreset | EnvironmentOptions;
   timeout?: number;
   headers?: Record<string, string>;
   token?: string;
+  tokenProvider?: TokenProvider;
+  onUnauthorized?: UnauthorizedHandler;
+  retry?: RetryPolicy;
+  /** How responses are checked against their DTO. Default is `LENIENT`. */
+  validation?: ValidationMode;
+  /** Custom Axios adapter, e.g. the fake backend of `react-native-vpage-sdk/testing`. */
+  adapter?: AxiosAdapter;
 };
@@ -0,0 +1,11 @@
+/**
+ * Stores downloaded documents so they can be rendered from a local URI.
+ */
+export type FileStore = {
+  /**
+   * Writes a file, replacing any file with the same name.
+   * @returns The URI the file can be rendered from.
+   */
+  write(name: string, data: Uint8Array, mimeType: string): Promise<string>;
+  remove(uri: string): Promise<void>;
+};
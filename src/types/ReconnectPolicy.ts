@@ -0,0 +1,8 @@
+export type ReconnectPolicy = {
+  /** Number of reconnection attempts before giving up, reset on every successful connection. 0 never gives up. Default is 10. */
+  maxAttempts?: number;
+  /** Delay before the first reconnection attempt in milliseconds, doubled on every attempt. Default is 1000. */
+  baseDelay?: number;
+  /** Upper bound of the delay between attempts in milliseconds. Default is 30000. */
+  maxDelay?: number;
+};
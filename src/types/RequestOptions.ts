@@ -0,0 +1,12 @@
+import { RetryPolicy } from './RetryPolicy';
+
+export type RequestOptions = {
+  /** Overrides the client retry policy for this call, or disables retries with `false`. */
+  retry?: RetryPolicy | false;
+  /** Idempotency key sent with POST requests. Generated once per call and reused across retries if omitted. */
+  idempotencyKey?: string;
+  /** Cancels the call, including pending retries. The call then rejects with a `VpageAbortError`. */
+  signal?: AbortSignal;
+  /** Overrides the client timeout of each attempt in milliseconds. */
+  timeout?: number;
+};
@@ -0,0 +1,16 @@
+import { VpageErrorKind } from '../errors';
+
+export type RetryPolicy = {
+  /** Total number of attempts, including the first one. Default is 1 (no retry). */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled on every attempt. Default is 500. */
+  baseDelay?: number;
+  /** Upper bound of the delay between attempts in milliseconds. Default is 8000. */
+  maxDelay?: number;
+  /** Randomizes each delay between 0 and the computed backoff. Default is true. */
+  jitter?: boolean;
+  /** Error kinds that can be retried. Default is `NETWORK`, `TIMEOUT` and `HTTP`. */
+  retryOn?: VpageErrorKind[];
+  /** HTTP status codes that can be retried when `HTTP` is retryable. Default is 408, 429, 500, 502, 503 and 504. */
+  retryOnStatus?: number[];
+};
@@ -0,0 +1,12 @@
+/**
+ * Headers of an outbound message, or a function building them when the message is published.
+ * Use a function for headers that change on reconnect, such as the socket ID or the token.
+ */
+export type MessageHeaders = Record<string, string> | (() => Record<string, string>);
+
+export type SendOptions = {
+  /** Time the message may wait for a connection in milliseconds before it is dropped. Default is 30000. Pass `Infinity` to wait until it is sent. */
+  ttl?: number;
+  /** Time to wait for the broker receipt in milliseconds, for `sendWithReceipt`. Default is 10000. */
+  receiptTimeout?: number;
+};
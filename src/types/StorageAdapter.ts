@@ -0,0 +1,8 @@
+/**
+ * Key-value storage used to persist SDK state. Compatible with `@react-native-async-storage/async-storage`.
+ */
+export type StorageAdapter = {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+};
@@ -0,0 +1,11 @@
+/**
+ * Returns the current access token. Called before every request and every STOMP (re)connect.
+ */
+export type TokenProvider = () => string | undefined | Promise<string | undefined>;
+
+/**
+ * Refreshes the access token after a 401 response.
+ * Returns the new token, or nothing to read it again from the token provider.
+ * When a token provider is configured, it must return the refreshed token afterwards.
+ */
+export type UnauthorizedHandler = () => string | undefined | void | Promise<string | undefined | void>;
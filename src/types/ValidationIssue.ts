@@ -0,0 +1,6 @@
+export type ValidationIssue = {
+  /** Path of the mismatching field, e.g. `data.campaignMonitor.baseColor`. */
+  path: string;
+  expected: string;
+  received: string;
+};
@@ -4,17 +4,17 @@ export type ConfigDto = {
   templateSMSCodes: string[];
   steps: number[];
   authMethod: string;
-  ocrApi: string;
+  ocrApi?: string | null;
   partner: {
     id: number;
     shortName: string;
     code: string;
-    logo: string;
-    phoneNumber: string;
-    email: string;
-    note: string;
-    fullName: string;
-    address: string;
+    logo?: string | null;
+    phoneNumber?: string | null;
+    email?: string | null;
+    note?: string | null;
+    fullName?: string | null;
+    address?: string | null;
     status: string;
   };
   campaignMonitor: {
@@ -22,12 +22,12 @@ export type ConfigDto = {
     monitorNotifiesAgentBusy: string;
     monitorDisconnect: string;
     monitorKycResult: string;
-    avatarAgent: string;
-    background: string;
-    baseColor: string;
+    avatarAgent?: string | null;
+    background?: string | null;
+    baseColor?: string | null;
   };
-  redirectUrl: string;
-  callBackground: string;
-  agentBackground: string;
+  redirectUrl?: string | null;
+  callBackground?: string | null;
+  agentBackground?: string | null;
   camMode: string;
 };
@@ -3,7 +3,7 @@ export type CreateMeetingDto = {
   key: string;
   code: string;
   webcamToken: string;
-  screenToken: string;
+  screenToken?: string | null;
   subId: string;
 };
   
\ No newline at end of file
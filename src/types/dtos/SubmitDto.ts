@@ -4,7 +4,7 @@ export type SubmitDto = {
   numberLimit: number;
   count: number;
   transactionId: string;
-  description: string;
+  description?: string | null;
   contractId: string;
   appointmentId: string;
 };
@@ -1,13 +1,14 @@
 export type VerifyOTPDto = {
   numberLimit: number;
-  token: string;
+  token?: string | null;
   status: boolean;
-  sessionVideoDto: {
+  /** Session of the video call, missing when the OTP is not verified. */
+  sessionVideoDto?: {
     sessionId: string;
     key: string;
     code: string;
     webcamToken: string;
-    screenToken: string;
+    screenToken?: string | null;
     subId: string;
-  };
+  } | null;
 };
@@ -1,5 +1,13 @@
 export * from './APIClientOptions';
 export * from './ApiResponse';
+export * from './FileStore';
+export * from './ReconnectPolicy';
+export * from './RequestOptions';
+export * from './RetryPolicy';
+export * from './SendOptions';
+export * from './StorageAdapter';
+export * from './TokenProvider';
+export * from './ValidationIssue';
 export * from './dtos/ConfigDto';
 export * from './dtos/ContractDto';
 export * from './dtos/ContractURLDto';
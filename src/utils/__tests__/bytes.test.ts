@@ -0,0 +1,20 @@
+import Hex from 'crypto-js/enc-hex';
+import { CryptoService } from '../../crypto';
+import { toWordArray } from '../bytes';
+
+describe('toWordArray', () => {
+  it('keeps every byte, including a partial last word', () => {
+    const bytes = Uint8Array.from([0x00, 0x01, 0x7f, 0x80, 0xfe, 0xff]);
+
+    const words = toWordArray(bytes);
+
+    expect(words.sigBytes).toBe(6);
+    expect(words.toString(Hex)).toBe('00017f80feff');
+  });
+
+  it('hashes bytes like the same UTF-8 text', () => {
+    const text = 'contract.pdf';
+
+    expect(CryptoService.hashSHA256(new TextEncoder().encode(text))).toBe(CryptoService.hashSHA256(text));
+  });
+});
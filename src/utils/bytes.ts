@@ -0,0 +1,15 @@
+import Core from 'crypto-js/core';
+import type { lib } from 'crypto-js';
+
+/**
+ * Converts bytes to a crypto-js WordArray, packing them big-endian into 32-bit words.
+ * @param bytes - The bytes to convert.
+ * @returns The WordArray holding the bytes.
+ */
+export function toWordArray(bytes: Uint8Array): lib.WordArray {
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return Core.lib.WordArray.create(words, bytes.length);
+}
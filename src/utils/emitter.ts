@@ -0,0 +1,70 @@
+/**
+ * Emitter calls the listeners registered for an event, in registration order.
+ * A listener that throws is reported and does not prevent the others from being called.
+ */
+export class Emitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners: { [K in keyof Events]?: Set<(...args: Events[K]) => void> } = {};
+
+  /**
+   * Registers a listener for an event.
+   * @param event - The event to listen to.
+   * @param listener - The listener to call with the event arguments.
+   * @returns A function that unregisters the listener.
+   */
+  on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void) {
+    const listeners = this.listeners[event] || (this.listeners[event] = new Set());
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unregisters a listener.
+   * @param event - The event the listener was registered for.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Calls every listener of an event.
+   * @param event - The event to emit.
+   * @param args - The event arguments.
+   * @returns True if the event had listeners.
+   */
+  emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    const listeners = this.listeners[event];
+    if (!listeners || listeners.size === 0) {
+      return false;
+    }
+    [...listeners].forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Gets the number of listeners of an event.
+   * @param event - The event.
+   * @returns The number of listeners.
+   */
+  listenerCount(event: keyof Events) {
+    return this.listeners[event]?.size || 0;
+  }
+
+  /**
+   * Unregisters every listener.
+   * @param event - (Optional) Only unregisters the listeners of this event.
+   */
+  clear(event?: keyof Events) {
+    if (event) {
+      delete this.listeners[event];
+    } else {
+      this.listeners = {};
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { VpageConfigError } from '../errors';
+
 export const environment = {
   GET_CONFIG_INFO: '/vekyc/campaign/config-agent',
   CREATE_MEETING: '/vekyc/meeting/:id/init',
@@ -15,3 +17,94 @@ export const environment = {
 
   SOCKET_PATH: '/websocket-agent',
 }
+
+export type Endpoints = Omit<typeof environment, 'SOCKET_PATH'>;
+
+export enum EnvironmentPreset {
+  UAT = 'UAT',
+  /** Any other gateway, e.g. production, given by `baseURL`. */
+  CUSTOM = 'CUSTOM',
+}
+
+export type VpageEnvironment = {
+  preset: EnvironmentPreset;
+  baseURL: string;
+  socketURL: string;
+  socketPath: string;
+  endpoints: Endpoints;
+};
+
+export type EnvironmentOptions = {
+  preset?: EnvironmentPreset;
+  baseURL?: string;
+  /** Base URL of the WebSocket server. Defaults to `baseURL`. */
+  socketURL?: string;
+  socketPath?: string;
+  /** Overrides individual endpoint paths, e.g. when the backend versions a route. */
+  endpoints?: Partial<Endpoints>;
+};
+
+const { SOCKET_PATH, ...defaultEndpoints } = environment;
+
+const presets: Record<EnvironmentPreset, { baseURL?: string }> = {
+  [EnvironmentPreset.UAT]: { baseURL: 'https://vekyc-gateway-server-uat.mobifi.vn' },
+  [EnvironmentPreset.CUSTOM]: {},
+};
+
+/**
+ * Checks whether the app runs in a development build.
+ * @returns True if `__DEV__` is defined and set.
+ */
+function isDev() {
+  return typeof __DEV__ !== 'undefined' && __DEV__;
+}
+
+/**
+ * Resolves an environment from a preset and optional overrides.
+ * @param options - (Optional) A preset name, or the preset and the values to override.
+ * @returns The resolved environment.
+ * @throws {VpageConfigError} If no base URL can be resolved, or if a non-development build
+ * would silently fall back to the UAT gateway.
+ *
+ * When neither a preset nor a `baseURL` is given, development builds fall back to UAT with a warning,
+ * while production builds throw.
+ */
+export function createEnvironment(options: EnvironmentPreset | EnvironmentOptions = {}): VpageEnvironment {
+  const opts: EnvironmentOptions = typeof options === 'string' ? { preset: options } : options;
+  let preset = opts.preset;
+  if (!preset) {
+    if (opts.baseURL) {
+      preset = EnvironmentPreset.CUSTOM;
+    } else if (isDev()) {
+      console.warn('No environment configured, falling back to UAT.');
+      preset = EnvironmentPreset.UAT;
+    } else {
+      throw new VpageConfigError('No environment configured. Set a preset or a baseURL.');
+    }
+  }
+  const baseURL = opts.baseURL || presets[preset].baseURL;
+  if (!baseURL) {
+    throw new VpageConfigError(`The ${preset} environment requires a baseURL.`);
+  }
+  return {
+    preset,
+    baseURL,
+    socketURL: opts.socketURL || baseURL,
+    socketPath: opts.socketPath || SOCKET_PATH,
+    endpoints: { ...defaultEndpoints, ...opts.endpoints },
+  };
+}
+
+/**
+ * Resolves the environment of an API client from its options.
+ * @param options - (Optional) The `baseURL` and `environment` of the client options.
+ * @returns The resolved environment, with `baseURL` taking precedence over the preset.
+ */
+export function resolveEnvironment(options?: { baseURL?: string; environment?: EnvironmentPreset | EnvironmentOptions }) {
+  const env = options?.environment;
+  const opts: EnvironmentOptions = typeof env === 'string' ? { preset: env } : { ...env };
+  if (options?.baseURL) {
+    opts.baseURL = options.baseURL;
+  }
+  return createEnvironment(opts);
+}
@@ -0,0 +1,58 @@
+import { VpageConfigError } from '../errors';
+
+type SecureRandom = { getRandomValues(array: Uint8Array): Uint8Array };
+
+/**
+ * Checks whether a `crypto` object provides `getRandomValues`.
+ * @param cryptoObj - The `crypto` object of the runtime.
+ * @returns True if `getRandomValues` is a function.
+ */
+function hasGetRandomValues(cryptoObj: Partial<SecureRandom>): cryptoObj is SecureRandom {
+  return typeof cryptoObj.getRandomValues === 'function';
+}
+
+/**
+ * Gets the secure random number generator of the runtime.
+ * @returns The `crypto` object, or `undefined` if `crypto.getRandomValues` is missing.
+ */
+function getSecureRandom(): SecureRandom | undefined {
+  const cryptoObj = (globalThis as typeof globalThis & { crypto?: Partial<SecureRandom> }).crypto;
+  return cryptoObj && hasGetRandomValues(cryptoObj) ? cryptoObj : undefined;
+}
+
+/**
+ * Generates cryptographically random bytes with `crypto.getRandomValues`.
+ * @param length - The number of bytes to generate.
+ * @returns The random bytes.
+ * @throws {VpageConfigError} If the runtime has no secure random number generator.
+ * On React Native, install `react-native-get-random-values` and import it first in the app entry point.
+ */
+export function randomBytes(length: number): Uint8Array {
+  const secureRandom = getSecureRandom();
+  if (!secureRandom) {
+    throw new VpageConfigError('crypto.getRandomValues is not available. Install react-native-get-random-values and import it first.');
+  }
+  return secureRandom.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Generates a random RFC 4122 version 4 UUID.
+ * Uses `crypto.getRandomValues` when available, and falls back to `Math.random` otherwise,
+ * so IDs are unique but must not be used as secrets.
+ * @returns The generated UUID.
+ */
+export function generateId(): string {
+  const bytes = new Uint8Array(16);
+  const secureRandom = getSecureRandom();
+  if (secureRandom) {
+    secureRandom.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,86 @@
+import { array, boolean, number, object, optional, string } from './schema';
+
+export const CheckSelfKycDtoSchema = object({
+  registrationType: string(),
+  isSelfKyc: boolean(),
+});
+
+export const ConfigDtoSchema = object({
+  campaignName: string(),
+  campaignCode: string(),
+  templateSMSCodes: array(string()),
+  steps: array(number()),
+  authMethod: string(),
+  ocrApi: optional(string()),
+  partner: object({
+    id: number(),
+    shortName: string(),
+    code: string(),
+    logo: optional(string()),
+    phoneNumber: optional(string()),
+    email: optional(string()),
+    note: optional(string()),
+    fullName: optional(string()),
+    address: optional(string()),
+    status: string(),
+  }),
+  campaignMonitor: object({
+    monitorWelcome: string(),
+    monitorNotifiesAgentBusy: string(),
+    monitorDisconnect: string(),
+    monitorKycResult: string(),
+    avatarAgent: optional(string()),
+    background: optional(string()),
+    baseColor: optional(string()),
+  }),
+  redirectUrl: optional(string()),
+  callBackground: optional(string()),
+  agentBackground: optional(string()),
+  camMode: string(),
+});
+
+export const ContractDtoSchema = object({
+  name: string(),
+  url: string(),
+  fileType: string(),
+});
+
+export const ContractURLDtoSchema = object({
+  systemNameLogo: string(),
+  originalNameLogo: string(),
+});
+
+export const CreateMeetingDtoSchema = object({
+  sessionId: string(),
+  key: string(),
+  code: string(),
+  webcamToken: string(),
+  screenToken: optional(string()),
+  subId: string(),
+});
+
+export const ResendOTPDtoSchema = object({
+  currentTime: number(),
+  expiredTime: number(),
+  numberLimit: number(),
+  count: number(),
+  transactionId: string(),
+});
+
+export const SubmitDtoSchema = object({
+  currentTime: number(),
+  expiredTime: number(),
+  numberLimit: number(),
+  count: number(),
+  transactionId: string(),
+  description: optional(string()),
+  contractId: string(),
+  appointmentId: string(),
+});
+
+export const VerifyOTPDtoSchema = object({
+  numberLimit: number(),
+  token: optional(string()),
+  status: boolean(),
+  sessionVideoDto: optional(CreateMeetingDtoSchema),
+});
@@ -0,0 +1,3 @@
+export * from './dtoSchemas';
+export { Schema, validate } from './schema';
+export * from './validationMode';
@@ -0,0 +1,93 @@
+import { ValidationIssue } from '../types';
+
+/**
+ * A schema checks a value and appends an issue for every field that does not match.
+ */
+export type Schema = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+/**
+ * Describes the type of a received value for issue messages.
+ * @param value - The received value.
+ * @returns The type name, distinguishing `null` and arrays from objects.
+ */
+function describe(value: unknown) {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Creates a schema matching a primitive type.
+ * @param type - The expected `typeof` result.
+ * @returns The schema.
+ */
+function primitive(type: 'string' | 'number' | 'boolean'): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== type) {
+      issues.push({ path, expected: type, received: describe(value) });
+    }
+  };
+}
+
+export const string = () => primitive('string');
+export const number = () => primitive('number');
+export const boolean = () => primitive('boolean');
+
+/**
+ * Creates a schema that also accepts `undefined` and `null`.
+ * @param schema - The schema of the value when present.
+ * @returns The schema.
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      schema(value, path, issues);
+    }
+  };
+}
+
+/**
+ * Creates a schema matching an array whose items all match the given schema.
+ * @param item - The schema of every item.
+ * @returns The schema.
+ */
+export function array(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+/**
+ * Creates a schema matching an object with the given fields. Extra fields are allowed.
+ * @param shape - The schema of every expected field.
+ * @returns The schema.
+ */
+export function object(shape: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+    for (const key of Object.keys(shape)) {
+      shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+    }
+  };
+}
+
+/**
+ * Validates a value against a schema.
+ * @param schema - The schema to check against.
+ * @param value - The value to check.
+ * @param path - (Optional) The path of the value, used as prefix of the issue paths.
+ * @returns The list of mismatching fields, empty if the value is valid.
+ */
+export function validate(schema: Schema, value: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema(value, path, issues);
+  return issues;
+}
@@ -0,0 +1,7 @@
+export enum ValidationMode {
+  /** Rejects mismatching responses with a `VpageValidationError`. */
+  STRICT = 'STRICT',
+  /** Logs mismatching responses and passes them through. */
+  LENIENT = 'LENIENT',
+  OFF = 'OFF',
+}
@@ -0,0 +1,44 @@
+import { createAgoraRtcEngine } from 'react-native-agora';
+import type { FakeRtcEngine } from '../../../__mocks__/react-native-agora';
+import { VideoProfile } from '../videoProfile';
+import { createVekycService } from '../vekycService';
+
+describe('VekycService adaptive video', () => {
+  let vekycService: ReturnType<typeof createVekycService>;
+  let engine: FakeRtcEngine;
+
+  beforeEach(() => {
+    vekycService = createVekycService();
+    vekycService.initialize('app-id');
+    const results = jest.mocked(createAgoraRtcEngine).mock.results;
+    engine = results[results.length - 1].value as unknown as FakeRtcEngine;
+  });
+
+  afterEach(() => {
+    vekycService.cleanup();
+  });
+
+  it('leaves the local video mute alone while the profile changes', () => {
+    vekycService.setVideoProfile(VideoProfile.DOCUMENT);
+    vekycService.enableAdaptiveVideo();
+    vekycService.setVideoProfile(VideoProfile.STANDARD);
+    vekycService.disableAdaptiveVideo();
+
+    expect(engine.setVideoEncoderConfiguration).toHaveBeenCalledTimes(4);
+    expect(engine.muteLocalVideoStream).not.toHaveBeenCalled();
+  });
+
+  it('mutes the local video when entering audio-only, and unmutes it when leaving', () => {
+    vekycService.setVideoProfile(VideoProfile.STANDARD);
+    vekycService.enableAdaptiveVideo({ downgradeAfter: 1 });
+
+    engine.emit('onNetworkQuality', { channelId: 'channel-1', localUid: 1001 }, 0, 5, 5);
+    expect(engine.muteLocalVideoStream).not.toHaveBeenCalled();
+    engine.emit('onNetworkQuality', { channelId: 'channel-1', localUid: 1001 }, 0, 5, 5);
+    expect(engine.muteLocalVideoStream).toHaveBeenLastCalledWith(true);
+
+    vekycService.disableAdaptiveVideo();
+    expect(engine.muteLocalVideoStream).toHaveBeenLastCalledWith(false);
+    expect(engine.muteLocalVideoStream).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,26 @@
+import { createAgoraRtcEngine } from 'react-native-agora';
+import type { FakeRtcEngine } from '../../../__mocks__/react-native-agora';
+import { createVekycService } from '../vekycService';
+
+describe('VekycService call state', () => {
+  it('keeps the call state listeners across cleanup and a new initialize', () => {
+    const vekycService = createVekycService();
+    const joined: boolean[] = [];
+    vekycService.subscribeCallState((state, previous) => {
+      if (state.joined !== previous.joined) {
+        joined.push(state.joined);
+      }
+    });
+
+    for (const channelId of ['channel-1', 'channel-2']) {
+      vekycService.initialize('app-id');
+      const results = jest.mocked(createAgoraRtcEngine).mock.results;
+      const engine = results[results.length - 1].value as unknown as FakeRtcEngine;
+      engine.emit('onJoinChannelSuccess', { channelId, localUid: 1001 }, 0);
+      vekycService.cleanup();
+    }
+
+    expect(joined).toEqual([true, false, true, false]);
+    expect(vekycService.getCallState().joined).toBe(false);
+  });
+});
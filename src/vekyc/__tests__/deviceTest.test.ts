@@ -0,0 +1,137 @@
+import {
+  LastmileProbeResultState,
+  LocalVideoStreamReason,
+  LocalVideoStreamState,
+  VideoSourceType,
+  createAgoraRtcEngine,
+} from 'react-native-agora';
+import type { FakeRtcEngine } from '../../../__mocks__/react-native-agora';
+import { ContractAction, createAPIService } from '../../api/apiService';
+import { VpageBusinessError } from '../../errors';
+import { createFakeVekycBackend, fail } from '../../testing';
+import { DeviceTestStep } from '../deviceTest';
+import { createVekycService } from '../vekycService';
+
+type DeviceConditions = {
+  cameraState: LocalVideoStreamState;
+  quality: number;
+  micLevel: number;
+};
+
+describe('VekycService device test', () => {
+  const sessionKey = 'session-1';
+  const timeouts = { previewTimeout: 500, probeTimeout: 500, echoDuration: 30 };
+
+  let backend: ReturnType<typeof createFakeVekycBackend>;
+  let vekycService: ReturnType<typeof createVekycService>;
+  let engine: FakeRtcEngine;
+
+  /**
+   * Simulates the engine callbacks of every step, like the native engine would once the step starts.
+   * @param conditions - The camera state, last-mile quality and microphone level reported by the engine.
+   * @returns The `onStep` option driving the callbacks.
+   */
+  function simulate({ cameraState, quality, micLevel }: DeviceConditions) {
+    return (step: DeviceTestStep) =>
+      setTimeout(() => {
+        switch (step) {
+          case 'camera':
+            engine.emit('onLocalVideoStateChanged', VideoSourceType.VideoSourceCamera, cameraState, LocalVideoStreamReason.LocalVideoStreamReasonOk);
+            break;
+          case 'network':
+            engine.emit('onLastmileQuality', quality);
+            engine.emit('onLastmileProbeResult', { state: LastmileProbeResultState.LastmileProbeResultComplete, rtt: 40 });
+            break;
+          case 'microphone':
+            engine.emit('onAudioVolumeIndication', {}, [{ uid: 0, volume: micLevel }], 1, micLevel);
+            break;
+        }
+      }, 0);
+  }
+
+  beforeEach(() => {
+    backend = createFakeVekycBackend();
+    vekycService = createVekycService();
+    vekycService.initialize('app-id');
+    const results = jest.mocked(createAgoraRtcEngine).mock.results;
+    engine = results[results.length - 1].value as unknown as FakeRtcEngine;
+  });
+
+  afterEach(() => {
+    vekycService.cleanup();
+  });
+
+  it('passes the camera, network and microphone steps and logs the report', async () => {
+    const report = await vekycService.runDeviceTest({
+      ...timeouts,
+      apiService: createAPIService(backend.apiClientOptions()),
+      sessionKey,
+      onStep: simulate({ cameraState: LocalVideoStreamState.LocalVideoStreamStateCapturing, quality: 2, micLevel: 40 }),
+      confirmPlayback: async () => true,
+    });
+
+    expect(report).toMatchObject({
+      passed: true,
+      completed: true,
+      logged: true,
+      camera: { passed: true, state: LocalVideoStreamState.LocalVideoStreamStateCapturing },
+      network: { passed: true, quality: 2, rtt: 40 },
+      microphone: { passed: true, peakLevel: 40, samples: 1 },
+      playback: { passed: true, confirmed: true },
+    });
+    expect(backend.getRequests('SAVE_LOG')[0].data).toMatchObject({
+      actionHistory: ContractAction.CUSTOMER_TEST_CAM_MIC,
+      detail: { passed: true, camera: { passed: true } },
+    });
+  });
+
+  it('fails the steps whose device does not check out', async () => {
+    const report = await vekycService.runDeviceTest({
+      ...timeouts,
+      onStep: simulate({ cameraState: LocalVideoStreamState.LocalVideoStreamStateFailed, quality: 5, micLevel: 2 }),
+    });
+
+    expect(report).toMatchObject({
+      passed: false,
+      completed: true,
+      logged: false,
+      camera: { passed: false, state: LocalVideoStreamState.LocalVideoStreamStateFailed },
+      network: { passed: false, quality: 5 },
+      microphone: { passed: false, peakLevel: 2 },
+      playback: { passed: true },
+    });
+  });
+
+  it('tears the test down when confirmPlayback rejects', async () => {
+    const error = new Error('Dialog dismissed');
+
+    await expect(
+      vekycService.runDeviceTest({
+        ...timeouts,
+        onStep: simulate({ cameraState: LocalVideoStreamState.LocalVideoStreamStateCapturing, quality: 2, micLevel: 40 }),
+        confirmPlayback: () => Promise.reject(error),
+      })
+    ).rejects.toBe(error);
+
+    expect(engine.stopPreview).toHaveBeenCalled();
+    expect(engine.stopEchoTest).toHaveBeenCalled();
+    expect(engine.enableAudioVolumeIndication).toHaveBeenLastCalledWith(0, 3, false);
+    const deviceTestHandler = engine.registerEventHandler.mock.calls[engine.registerEventHandler.mock.calls.length - 1][0];
+    expect(engine.unregisterEventHandler).toHaveBeenCalledWith(deviceTestHandler);
+    expect(await vekycService.runDeviceTest({ ...timeouts, probe: false })).toMatchObject({ completed: true });
+  });
+
+  it('returns the logging error in the report', async () => {
+    backend.once('SAVE_LOG', { body: fail('LOG_FAILED', 'Log not saved') });
+
+    const report = await vekycService.runDeviceTest({
+      ...timeouts,
+      apiService: createAPIService(backend.apiClientOptions()),
+      sessionKey,
+      onStep: simulate({ cameraState: LocalVideoStreamState.LocalVideoStreamStateCapturing, quality: 2, micLevel: 40 }),
+    });
+
+    expect(report).toMatchObject({ passed: true, logged: false });
+    expect(report?.logError).toBeInstanceOf(VpageBusinessError);
+  });
+});
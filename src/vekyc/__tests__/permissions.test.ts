@@ -0,0 +1,63 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import { createAgoraRtcEngine } from 'react-native-agora';
+import type { FakeRtcEngine } from '../../../__mocks__/react-native-agora';
+import { PermissionStatus } from '../permissions';
+import { createVekycService } from '../vekycService';
+
+describe('permissions on iOS without react-native-permissions', () => {
+  beforeEach(() => {
+    Platform.OS = 'ios';
+    jest.doMock(
+      'react-native-permissions',
+      () => {
+        throw new Error("Cannot find module 'react-native-permissions'");
+      },
+      { virtual: true }
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Platform.OS = 'android';
+    jest.dontMock('react-native-permissions');
+    jest.restoreAllMocks();
+  });
+
+  it('reports the permissions as unknown, and not granted', async () => {
+    const vekycService = createVekycService();
+
+    expect(await vekycService.checkPermissions()).toEqual({ microphone: PermissionStatus.UNKNOWN, camera: PermissionStatus.UNKNOWN });
+    expect(await vekycService.getPermissions()).toEqual({ microphone: false, camera: false });
+  });
+
+  it('warns before joining the channel', async () => {
+    const vekycService = createVekycService();
+    vekycService.initialize('app-id');
+    await vekycService.requestPermissions();
+
+    expect(await vekycService.joinChannel('rtc-token', 'channel-1', 1001)).toBe(0);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('without knowing whether microphone and camera access is granted'));
+    vekycService.cleanup();
+  });
+});
+
+describe('joining the channel without checking the permissions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('checks the permissions first, and refuses to join when the camera is denied', async () => {
+    jest.spyOn(PermissionsAndroid, 'check').mockImplementation(async (permission) => permission !== PermissionsAndroid.PERMISSIONS.CAMERA);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const vekycService = createVekycService();
+    vekycService.initialize('app-id');
+    const results = jest.mocked(createAgoraRtcEngine).mock.results;
+    const engine = results[results.length - 1].value as unknown as FakeRtcEngine;
+
+    expect(await vekycService.joinChannel('rtc-token', 'channel-1', 1001)).toBeUndefined();
+    expect(PermissionsAndroid.check).toHaveBeenCalledWith(PermissionsAndroid.PERMISSIONS.CAMERA);
+    expect(engine.joinChannel).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('Cannot join channel, missing permissions: camera (denied).');
+    vekycService.cleanup();
+  });
+});
@@ -0,0 +1,35 @@
+import { RenewTokenErrorCode } from 'react-native-agora';
+import { TokenRenewalError, TokenRenewalResult, createTokenRenewal } from '../tokenRenewal';
+
+describe('TokenRenewal', () => {
+  const connection = { channelId: 'channel-1', localUid: 1001 };
+
+  it('reports success only once the engine confirms the token', async () => {
+    const results: TokenRenewalResult[] = [];
+    const renewToken = jest.fn(() => 0);
+    const tokenRenewal = createTokenRenewal(renewToken, (result) => results.push(result), { provider: async () => 'rtc-token-2' });
+
+    await tokenRenewal.renew();
+    expect(renewToken).toHaveBeenCalledWith('rtc-token-2');
+    expect(results).toEqual([]);
+
+    tokenRenewal.handler.onRenewTokenResult!(connection, 'rtc-token-2', RenewTokenErrorCode.RenewTokenSuccess);
+    expect(results).toEqual([{ ok: true, token: 'rtc-token-2' }]);
+  });
+
+  it('reports the engine rejecting the token, synchronously or later', async () => {
+    const results: TokenRenewalResult[] = [];
+    const renewToken = jest.fn().mockReturnValueOnce(-7).mockReturnValue(0);
+    const tokenRenewal = createTokenRenewal(renewToken, (result) => results.push(result), { provider: async () => 'rtc-token-2' });
+
+    await tokenRenewal.renew();
+    await tokenRenewal.renew();
+    tokenRenewal.handler.onRenewTokenResult!(connection, 'rtc-token-2', RenewTokenErrorCode.RenewTokenCanceledByNewRequest);
+    tokenRenewal.handler.onRenewTokenResult!(connection, 'rtc-token-2', RenewTokenErrorCode.RenewTokenTokenExpired);
+
+    expect(results).toEqual([
+      expect.objectContaining({ ok: false, reason: TokenRenewalError.ENGINE_REJECTED, code: -7 }),
+      expect.objectContaining({ ok: false, reason: TokenRenewalError.ENGINE_REJECTED, code: RenewTokenErrorCode.RenewTokenTokenExpired }),
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { IRtcEngineEventHandler, LocalVideoStats } from 'react-native-agora';
+import { VIDEO_PROFILE_ORDER, VideoProfile } from './videoProfile';
+
+export type AdaptiveVideoOptions = {
+  /** Uplink quality from which a report counts as bad, on the Agora `QualityType` scale. Default is 4 (bad). */
+  downgradeAt?: number;
+  /** Uplink quality up to which a report counts as good. Default is 2 (good). */
+  upgradeAt?: number;
+  /** Number of bad reports in a row before stepping down. Default is 3. */
+  downgradeAfter?: number;
+  /** Number of good reports in a row before stepping back up. Default is 5. */
+  upgradeAfter?: number;
+  /** Video packet loss rate in percent from which a video stats report counts as bad. Default is 20. */
+  maxPacketLoss?: number;
+  /** Sent frame rate under which a video stats report counts as bad, while the camera captures faster. Default is 5. */
+  minFrameRate?: number;
+  /** Stops publishing video below the lowest profile, keeping the call audio-only. Default is true. */
+  audioOnlyFallback?: boolean;
+  /** Called whenever the video quality changes. */
+  onChange?: (change: VideoQualityChange) => void;
+};
+
+export type VideoQuality = {
+  profile: VideoProfile;
+  /** True if the local video is not published. */
+  audioOnly: boolean;
+};
+
+export type VideoQualityChange = VideoQuality & {
+  /** `manual` when the profile was set, `degraded` or `recovered` when the policy stepped down or up. */
+  reason: 'manual' | 'degraded' | 'recovered';
+};
+
+const DEFAULT_ADAPTIVE_VIDEO_OPTIONS: Required<Omit<AdaptiveVideoOptions, 'onChange'>> = {
+  downgradeAt: 4,
+  upgradeAt: 2,
+  downgradeAfter: 3,
+  upgradeAfter: 5,
+  maxPacketLoss: 20,
+  minFrameRate: 5,
+  audioOnlyFallback: true,
+};
+
+/**
+ * AdaptiveVideoPolicy steps the video profile down when the uplink degrades, down to audio-only,
+ * and back up to the profile set by the app once the uplink has been good for a while.
+ * Uplink quality reports from `onNetworkQuality` and video stats from `onLocalVideoStats` can both step down,
+ * only uplink quality reports step back up.
+ */
+class AdaptiveVideoPolicy {
+  private apply: (quality: VideoQuality) => void;
+  private options: Required<Omit<AdaptiveVideoOptions, 'onChange'>>;
+  private onChange?: (change: VideoQualityChange) => void;
+  private levels: VideoQuality[] = [];
+  private level = 0;
+  private badReports = 0;
+  private goodReports = 0;
+
+  /**
+   * Event handler to register on the RTC engine.
+   */
+  handler: IRtcEngineEventHandler = {
+    onNetworkQuality: (connection, remoteUid, txQuality) => {
+      // Remote UID 0 is the local user
+      if (remoteUid === 0) {
+        this.reportUplinkQuality(txQuality);
+      }
+    },
+    onLocalVideoStats: (connection, sourceType, stats) => this.reportVideoStats(stats),
+  };
+
+  /**
+   * Creates an instance of AdaptiveVideoPolicy.
+   * @param apply - Applies a video quality to the RTC engine.
+   * @param profile - The best profile to use, set by the app.
+   * @param options - (Optional) Thresholds of the policy.
+   */
+  constructor(apply: (quality: VideoQuality) => void, profile: VideoProfile, options: AdaptiveVideoOptions = {}) {
+    const { onChange, ...thresholds } = options;
+    this.apply = apply;
+    this.options = { ...DEFAULT_ADAPTIVE_VIDEO_OPTIONS, ...thresholds };
+    this.onChange = onChange;
+    this.setProfile(profile);
+  }
+
+  /**
+   * Sets the best profile to use and applies it right away. The policy steps down from it when the uplink degrades.
+   * @param profile - The profile.
+   */
+  setProfile(profile: VideoProfile) {
+    this.levels = VIDEO_PROFILE_ORDER.slice(VIDEO_PROFILE_ORDER.indexOf(profile)).map((p) => ({ profile: p, audioOnly: false }));
+    if (this.options.audioOnlyFallback) {
+      this.levels.push({ profile: this.levels[this.levels.length - 1].profile, audioOnly: true });
+    }
+    this.level = 0;
+    this.badReports = 0;
+    this.goodReports = 0;
+    this.change('manual');
+  }
+
+  /**
+   * Gets the video quality in use.
+   * @returns The profile and whether the call is audio-only.
+   */
+  getQuality(): VideoQuality {
+    return { ...this.levels[this.level] };
+  }
+
+  /**
+   * Records an uplink quality report.
+   * @param quality - The uplink quality on the Agora `QualityType` scale.
+   */
+  private reportUplinkQuality(quality: number) {
+    // Unknown, unsupported and detecting carry no information
+    if (quality < 1 || quality > 6) {
+      return;
+    }
+    if (quality >= this.options.downgradeAt) {
+      this.reportBad();
+    } else if (quality <= this.options.upgradeAt) {
+      this.reportGood();
+    } else {
+      this.badReports = 0;
+      this.goodReports = 0;
+    }
+  }
+
+  /**
+   * Records a local video stats report. Reports are ignored while audio-only, as no video is sent.
+   * @param stats - The local video stats.
+   */
+  private reportVideoStats(stats: LocalVideoStats) {
+    if (this.levels[this.level].audioOnly) {
+      return;
+    }
+    const lossy = (stats.txPacketLossRate ?? 0) >= this.options.maxPacketLoss;
+    const captureFrameRate = stats.captureFrameRate ?? 0;
+    const sentFrameRate = stats.sentFrameRate ?? captureFrameRate;
+    const starved = captureFrameRate >= this.options.minFrameRate && sentFrameRate < this.options.minFrameRate;
+    if (lossy || starved) {
+      this.reportBad();
+    }
+  }
+
+  /**
+   * Records a bad report, stepping down after `downgradeAfter` in a row.
+   */
+  private reportBad() {
+    this.goodReports = 0;
+    this.badReports++;
+    if (this.badReports >= this.options.downgradeAfter && this.level < this.levels.length - 1) {
+      this.badReports = 0;
+      this.level++;
+      this.change('degraded');
+    }
+  }
+
+  /**
+   * Records a good report, stepping up after `upgradeAfter` in a row.
+   */
+  private reportGood() {
+    this.badReports = 0;
+    this.goodReports++;
+    if (this.goodReports >= this.options.upgradeAfter && this.level > 0) {
+      this.goodReports = 0;
+      this.level--;
+      this.change('recovered');
+    }
+  }
+
+  /**
+   * Applies the current level and notifies the change.
+   * @param reason - Why the level changed.
+   */
+  private change(reason: VideoQualityChange['reason']) {
+    const quality = this.getQuality();
+    this.apply(quality);
+    this.onChange?.({ ...quality, reason });
+  }
+}
+
+/**
+ * Creates and returns a new instance of AdaptiveVideoPolicy.
+ * @param apply - Applies a video quality to the RTC engine.
+ * @param profile - The best profile to use, set by the app.
+ * @param options - (Optional) Thresholds of the policy.
+ * @returns A new instance of AdaptiveVideoPolicy.
+ */
+export function createAdaptiveVideoPolicy(apply: (quality: VideoQuality) => void, profile: VideoProfile, options?: AdaptiveVideoOptions) {
+  return new AdaptiveVideoPolicy(apply, profile, options);
+}
+
+// Export for external use
+export type { AdaptiveVideoPolicy };
@@ -0,0 +1,129 @@
+import {
+  ConnectionChangedReasonType,
+  ConnectionStateType,
+  ErrorCodeType,
+  IRtcEngineEventHandler,
+  LocalAudioStreamState,
+  LocalVideoStreamState,
+} from 'react-native-agora';
+import { Emitter } from '../utils/emitter';
+
+export type CallError = {
+  code: ErrorCodeType;
+  message: string;
+  timestamp: number;
+};
+
+export type CallState = {
+  joined: boolean;
+  channelName?: string;
+  localUid?: number;
+  /** UID of the agent, the first remote user in the channel. */
+  remoteUid?: number;
+  microphoneEnabled: boolean;
+  cameraEnabled: boolean;
+  connectionState: ConnectionStateType;
+  connectionChangedReason?: ConnectionChangedReasonType;
+  lastError?: CallError;
+};
+
+export type CallStateListener = (state: CallState, previous: CallState) => void;
+
+const INITIAL_CALL_STATE: CallState = {
+  joined: false,
+  microphoneEnabled: true,
+  cameraEnabled: false,
+  connectionState: ConnectionStateType.ConnectionStateDisconnected,
+};
+
+/**
+ * CallStateStore keeps the call state up to date from the RTC engine callbacks and notifies its listeners of every change.
+ */
+export class CallStateStore {
+  private state: CallState = INITIAL_CALL_STATE;
+  private events = new Emitter<{ change: [state: CallState, previous: CallState] }>();
+
+  /**
+   * Event handler to register on the RTC engine.
+   */
+  handler: IRtcEngineEventHandler = {
+    onJoinChannelSuccess: (connection) => {
+      this.update({ joined: true, channelName: connection.channelId, localUid: connection.localUid });
+    },
+    onLeaveChannel: () => {
+      this.update({ joined: false, remoteUid: undefined });
+    },
+    onUserJoined: (connection, remoteUid) => {
+      if (this.state.remoteUid === undefined) {
+        this.update({ remoteUid });
+      }
+    },
+    onUserOffline: (connection, remoteUid) => {
+      if (this.state.remoteUid === remoteUid) {
+        this.update({ remoteUid: undefined });
+      }
+    },
+    onConnectionStateChanged: (connection, connectionState, connectionChangedReason) => {
+      this.update({ connectionState, connectionChangedReason });
+    },
+    onLocalAudioStateChanged: (connection, state) => {
+      if (state === LocalAudioStreamState.LocalAudioStreamStateRecording || state === LocalAudioStreamState.LocalAudioStreamStateEncoding) {
+        this.update({ microphoneEnabled: true });
+      } else {
+        this.update({ microphoneEnabled: false });
+      }
+    },
+    onLocalVideoStateChanged: (source, state) => {
+      if (state === LocalVideoStreamState.LocalVideoStreamStateCapturing || state === LocalVideoStreamState.LocalVideoStreamStateEncoding) {
+        this.update({ cameraEnabled: true });
+      } else {
+        this.update({ cameraEnabled: false });
+      }
+    },
+    onError: (code, message) => {
+      this.update({ lastError: { code, message, timestamp: Date.now() } });
+    },
+  };
+
+  /**
+   * Gets the current call state.
+   * @returns The call state.
+   */
+  get(): CallState {
+    return this.state;
+  }
+
+  /**
+   * Merges a change into the call state, notifying the listeners if any field changed.
+   * @param patch - The fields to change.
+   */
+  update(patch: Partial<CallState>) {
+    const keys = Object.keys(patch) as (keyof CallState)[];
+    if (keys.every((key) => this.state[key] === patch[key])) {
+      return;
+    }
+    const previous = this.state;
+    this.state = { ...previous, ...patch };
+    this.events.emit('change', this.state, previous);
+  }
+
+  /**
+   * Registers a listener called whenever the call state changes.
+   * @param listener - The listener to call with the new and the previous state.
+   * @returns A function that unregisters the listener.
+   */
+  subscribe(listener: CallStateListener) {
+    return this.events.on('change', listener);
+  }
+
+  /**
+   * Restores the initial state, notifying the listeners. The listeners stay registered for the next call.
+   */
+  reset() {
+    const previous = this.state;
+    this.state = INITIAL_CALL_STATE;
+    if (previous !== INITIAL_CALL_STATE) {
+      this.events.emit('change', this.state, previous);
+    }
+  }
+}
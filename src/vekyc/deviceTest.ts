@@ -0,0 +1,376 @@
+import {
+  IRtcEngine,
+  IRtcEngineEventHandler,
+  LastmileProbeOneWayResult,
+  LastmileProbeResult,
+  LastmileProbeResultState,
+  LocalVideoStreamReason,
+  LocalVideoStreamState,
+} from 'react-native-agora';
+import { APIService, ContractAction } from '../api/apiService';
+import { AuditLog } from '../audit';
+import { VpageError, toVpageError } from '../errors';
+import { generateId } from '../utils/id';
+import { MediaPermissions } from './permissions';
+
+export type DeviceTestStep = 'camera' | 'network' | 'microphone';
+
+export type DeviceTestOptions = {
+  /** APIService logging the report as `CUSTOMER_TEST_CAM_MIC`. The report is not logged without it. */
+  apiService?: APIService;
+  /** Audit log recording the report. Default is to send it directly through `saveLog`. */
+  auditLog?: AuditLog;
+  sessionKey?: string;
+  /** Time to wait for the camera to start capturing in milliseconds. Default is 5000. */
+  previewTimeout?: number;
+  /** Runs the last-mile network probe. Default is true. */
+  probe?: boolean;
+  /** Time to wait for the last-mile probe result in milliseconds. Default is 30000. */
+  probeTimeout?: number;
+  /** Expected uplink and downlink bitrate of the call in bps, between 100000 and 5000000. Default is 500000. */
+  expectedBitrate?: number;
+  /** Worst last-mile quality that passes, on the Agora `QualityType` scale. Default is 3 (poor). */
+  maxNetworkQuality?: number;
+  /** Delay before the echo test plays the recorded audio back in seconds, between 2 and 10. Default is 2. */
+  echoInterval?: number;
+  /** Duration of the echo test in milliseconds, while the user speaks. Default is the echo interval plus 4 seconds. */
+  echoDuration?: number;
+  /** Channel of the echo test, unique per device. Default is a random channel. */
+  echoChannelId?: string;
+  /** Token of the echo test channel, required when the App Certificate is enabled. */
+  echoToken?: string;
+  /** Minimum peak microphone level that passes, from 0 to 255. Default is 10. */
+  minMicLevel?: number;
+  /** Asks the user whether they heard the echo. Without it, playback passes if the echo test started. */
+  confirmPlayback?: () => Promise<boolean>;
+  /** Called when a step starts, e.g. to show instructions. */
+  onStep?: (step: DeviceTestStep) => void;
+  /** Called with the live microphone input level, from 0 to 255. */
+  onMicLevel?: (level: number) => void;
+};
+
+export type CameraTestResult = {
+  passed: boolean;
+  /** Local video state reached, or `undefined` if the camera did not start in time. */
+  state?: LocalVideoStreamState;
+  reason?: LocalVideoStreamReason;
+  errorCode?: number;
+};
+
+export type NetworkTestResult = {
+  passed: boolean;
+  /** Last-mile quality on the Agora `QualityType` scale. */
+  quality?: number;
+  state?: LastmileProbeResultState;
+  rtt?: number;
+  uplink?: LastmileProbeOneWayResult;
+  downlink?: LastmileProbeOneWayResult;
+  errorCode?: number;
+};
+
+export type MicrophoneTestResult = {
+  passed: boolean;
+  /** Peak input level, from 0 to 255. */
+  peakLevel: number;
+  /** Average input level, from 0 to 255. */
+  averageLevel: number;
+  samples: number;
+};
+
+export type PlaybackTestResult = {
+  passed: boolean;
+  /** Whether the user confirmed hearing the echo, or `undefined` if they were not asked. */
+  confirmed?: boolean;
+  errorCode?: number;
+};
+
+export type DeviceTestReport = {
+  /** True if the test ran to the end and every step passed. */
+  passed: boolean;
+  /** False if the test was stopped before the end. */
+  completed: boolean;
+  startedAt: number;
+  duration: number;
+  permissions?: MediaPermissions;
+  camera?: CameraTestResult;
+  network?: NetworkTestResult;
+  microphone?: MicrophoneTestResult;
+  playback?: PlaybackTestResult;
+  /** True if the report was logged as `CUSTOMER_TEST_CAM_MIC`. False without `apiService` and `auditLog`, when stopped, or when logging failed. */
+  logged: boolean;
+  /** Error logging the report, if logging failed. */
+  logError?: VpageError;
+};
+
+const DEFAULT_EXPECTED_BITRATE = 500000;
+
+/** Interval of the microphone level reports in milliseconds. */
+const MIC_LEVEL_INTERVAL = 200;
+
+/**
+ * DeviceTest checks the camera, microphone, audio playback and network before a call, without joining a channel.
+ * It starts the local preview, runs a last-mile network probe, then an echo test while measuring the microphone level,
+ * and logs the report as `CUSTOMER_TEST_CAM_MIC` so agents can see the device checked out.
+ */
+class DeviceTest {
+  private engine: IRtcEngine;
+  private options: DeviceTestOptions;
+  private permissions?: MediaPermissions;
+  private stopped = false;
+  private tornDown = false;
+  private cancelWait?: () => void;
+  private onVideoState?: (state: LocalVideoStreamState, reason: LocalVideoStreamReason) => void;
+  private onMicLevel?: (level: number) => void;
+  private onProbeResult?: (result: LastmileProbeResult) => void;
+  private lastmileQuality?: number;
+  private handler: IRtcEngineEventHandler = {
+    onLocalVideoStateChanged: (source, state, reason) => this.onVideoState?.(state, reason),
+    onAudioVolumeIndication: (connection, speakers) => {
+      // UID 0 is the local user
+      const local = speakers.find((speaker) => !speaker.uid);
+      if (local) {
+        this.onMicLevel?.(local.volume ?? 0);
+      }
+    },
+    onLastmileQuality: (quality) => {
+      this.lastmileQuality = quality;
+    },
+    onLastmileProbeResult: (result) => this.onProbeResult?.(result),
+  };
+
+  /**
+   * Creates an instance of DeviceTest.
+   * @param engine - The initialized RTC engine.
+   * @param options - (Optional) Step durations, thresholds and logging options.
+   * @param permissions - (Optional) The permission statuses, included in the report.
+   */
+  constructor(engine: IRtcEngine, options: DeviceTestOptions = {}, permissions?: MediaPermissions) {
+    this.engine = engine;
+    this.options = options;
+    this.permissions = permissions;
+  }
+
+  /**
+   * Runs every step, then logs the report if the test was not stopped.
+   * A logging failure does not reject: it is returned as the report `logError`.
+   * @returns A promise resolving to the report.
+   */
+  async run(): Promise<DeviceTestReport> {
+    const startedAt = Date.now();
+    const report: DeviceTestReport = { passed: false, completed: false, startedAt, duration: 0, permissions: this.permissions, logged: false };
+    this.engine.registerEventHandler(this.handler);
+    try {
+      report.camera = await this.testCamera();
+      if (this.options.probe !== false && !this.stopped) {
+        report.network = await this.testNetwork();
+      }
+      if (!this.stopped) {
+        Object.assign(report, await this.testAudio());
+      }
+    } finally {
+      this.teardown();
+    }
+    report.completed = !this.stopped;
+    report.duration = Date.now() - startedAt;
+    report.passed =
+      report.completed &&
+      [report.camera, report.network, report.microphone, report.playback].every((result) => !result || result.passed);
+    if (report.completed) {
+      await this.log(report);
+    }
+    return report;
+  }
+
+  /**
+   * Stops the test. The engine tests stop right away and the report is not logged.
+   */
+  stop() {
+    this.stopped = true;
+    this.cancelWait?.();
+    this.teardown();
+  }
+
+  /**
+   * Starts the local preview and waits for the camera to capture.
+   * @returns A promise resolving to the camera result.
+   */
+  private async testCamera(): Promise<CameraTestResult> {
+    this.options.onStep?.('camera');
+    this.engine.enableVideo();
+    const code = this.engine.startPreview();
+    if (code < 0) {
+      return { passed: false, errorCode: code };
+    }
+    const result = await this.wait<{ state?: LocalVideoStreamState; reason?: LocalVideoStreamReason }>(
+      this.options.previewTimeout ?? 5000,
+      {},
+      (done) => {
+        this.onVideoState = (state, reason) => {
+          if (state !== LocalVideoStreamState.LocalVideoStreamStateStopped) {
+            done({ state, reason });
+          }
+        };
+      }
+    );
+    this.onVideoState = undefined;
+    return {
+      passed: result.state !== undefined && result.state !== LocalVideoStreamState.LocalVideoStreamStateFailed,
+      ...result,
+    };
+  }
+
+  /**
+   * Runs the last-mile network probe and waits for its result.
+   * @returns A promise resolving to the network result.
+   */
+  private async testNetwork(): Promise<NetworkTestResult> {
+    this.options.onStep?.('network');
+    const bitrate = this.options.expectedBitrate ?? DEFAULT_EXPECTED_BITRATE;
+    const code = this.engine.startLastmileProbeTest({
+      probeUplink: true,
+      probeDownlink: true,
+      expectedUplinkBitrate: bitrate,
+      expectedDownlinkBitrate: bitrate,
+    });
+    if (code < 0) {
+      return { passed: false, errorCode: code };
+    }
+    const result = await this.wait<LastmileProbeResult | undefined>(this.options.probeTimeout ?? 30000, undefined, (done) => {
+      this.onProbeResult = done;
+    });
+    this.onProbeResult = undefined;
+    if (!this.stopped) {
+      this.engine.stopLastmileProbeTest();
+    }
+    const quality = this.lastmileQuality;
+    return {
+      passed: quality !== undefined && quality >= 1 && quality <= (this.options.maxNetworkQuality ?? 3),
+      quality,
+      state: result?.state,
+      rtt: result?.rtt,
+      uplink: result?.uplinkReport,
+      downlink: result?.downlinkReport,
+    };
+  }
+
+  /**
+   * Runs the echo test while measuring the microphone level, then asks the user whether they heard the echo.
+   * @returns A promise resolving to the microphone and playback results.
+   */
+  private async testAudio(): Promise<{ microphone: MicrophoneTestResult; playback: PlaybackTestResult }> {
+    this.options.onStep?.('microphone');
+    const levels: number[] = [];
+    this.onMicLevel = (level) => {
+      levels.push(level);
+      this.options.onMicLevel?.(level);
+    };
+    this.engine.enableAudioVolumeIndication(MIC_LEVEL_INTERVAL, 3, true);
+    const echoInterval = this.options.echoInterval ?? 2;
+    const code = this.engine.startEchoTest({
+      enableAudio: true,
+      enableVideo: false,
+      channelId: this.options.echoChannelId || `echo-test-${generateId()}`,
+      token: this.options.echoToken,
+      intervalInSeconds: echoInterval,
+    });
+    if (code >= 0) {
+      await this.wait(this.options.echoDuration ?? echoInterval * 1000 + 4000, undefined, () => {});
+    }
+    this.onMicLevel = undefined;
+    if (!this.stopped) {
+      this.engine.stopEchoTest();
+      this.engine.enableAudioVolumeIndication(0, 3, false);
+    }
+    const peakLevel = Math.max(0, ...levels);
+    const microphone: MicrophoneTestResult = {
+      passed: peakLevel >= (this.options.minMicLevel ?? 10),
+      peakLevel,
+      averageLevel: levels.length ? Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length) : 0,
+      samples: levels.length,
+    };
+    if (code < 0) {
+      return { microphone, playback: { passed: false, errorCode: code } };
+    }
+    const confirmed = this.options.confirmPlayback && !this.stopped ? await this.options.confirmPlayback() : undefined;
+    return { microphone, playback: { passed: confirmed !== false, confirmed } };
+  }
+
+  /**
+   * Waits for an engine callback, giving up after a timeout or when the test is stopped.
+   * @param timeout - The time to wait in milliseconds.
+   * @param fallback - The value resolved on timeout or stop.
+   * @param listen - Sets up the callback, calling `done` with the value to resolve.
+   * @returns A promise resolving to the value.
+   */
+  private wait<T>(timeout: number, fallback: T, listen: (done: (value: T) => void) => void): Promise<T> {
+    return new Promise<T>((resolve) => {
+      if (this.stopped) {
+        resolve(fallback);
+        return;
+      }
+      const done = (value: T) => {
+        clearTimeout(timer);
+        this.cancelWait = undefined;
+        resolve(value);
+      };
+      const timer = setTimeout(() => done(fallback), timeout);
+      this.cancelWait = () => done(fallback);
+      listen(done);
+    });
+  }
+
+  /**
+   * Stops every test still running, stops the preview and unregisters the event handler. Runs once.
+   */
+  private teardown() {
+    if (this.tornDown) {
+      return;
+    }
+    this.tornDown = true;
+    this.cancelWait = undefined;
+    this.onVideoState = undefined;
+    this.onMicLevel = undefined;
+    this.onProbeResult = undefined;
+    this.engine.stopEchoTest();
+    this.engine.stopLastmileProbeTest();
+    this.engine.enableAudioVolumeIndication(0, 3, false);
+    this.engine.stopPreview();
+    this.engine.unregisterEventHandler(this.handler);
+  }
+
+  /**
+   * Logs the report as `CUSTOMER_TEST_CAM_MIC` through the audit log, or directly through `saveLog`,
+   * and records the outcome in `logged` and `logError`.
+   * @param report - The report to log.
+   */
+  private async log(report: DeviceTestReport) {
+    const { apiService, auditLog, sessionKey } = this.options;
+    const { logged, logError, ...detail } = report;
+    try {
+      if (auditLog) {
+        await auditLog.log(ContractAction.CUSTOMER_TEST_CAM_MIC, detail, sessionKey);
+      } else if (apiService) {
+        await apiService.saveLog(ContractAction.CUSTOMER_TEST_CAM_MIC, detail, sessionKey);
+      } else {
+        return;
+      }
+      report.logged = true;
+    } catch (error) {
+      report.logError = toVpageError(error);
+    }
+  }
+}
+
+/**
+ * Creates and returns a new instance of DeviceTest.
+ * @param engine - The initialized RTC engine.
+ * @param options - (Optional) Step durations, thresholds and logging options.
+ * @param permissions - (Optional) The permission statuses, included in the report.
+ * @returns A new instance of DeviceTest.
+ */
+export function createDeviceTest(engine: IRtcEngine, options?: DeviceTestOptions, permissions?: MediaPermissions) {
+  return new DeviceTest(engine, options, permissions);
+}
+
+// Export for external use
+export type { DeviceTest };
@@ -1 +1,7 @@
 export * from './vekycService';
+export * from './permissions';
+export * from './deviceTest';
+export * from './videoProfile';
+export * from './adaptiveVideo';
+export type { CallError, CallState, CallStateListener } from './callState';
+export * from './tokenRenewal';
@@ -0,0 +1,146 @@
+import { Linking, PermissionsAndroid, Platform } from 'react-native';
+
+export enum PermissionStatus {
+  GRANTED = 'granted',
+  /** Not granted yet. Requesting the permission prompts the user. */
+  DENIED = 'denied',
+  /** Denied for good. The user can only grant it from the system settings, see `openPermissionSettings`. */
+  BLOCKED = 'blocked',
+  /** The device has no such hardware. */
+  UNAVAILABLE = 'unavailable',
+  /** The permission could not be checked, e.g. react-native-permissions is not installed on iOS. It may or may not be granted. */
+  UNKNOWN = 'unknown',
+}
+
+export type MediaPermissions = {
+  microphone: PermissionStatus;
+  camera: PermissionStatus;
+};
+
+const UNKNOWN_PERMISSIONS: MediaPermissions = {
+  microphone: PermissionStatus.UNKNOWN,
+  camera: PermissionStatus.UNKNOWN,
+};
+
+/**
+ * Loads react-native-permissions, which is required to check permissions on iOS.
+ * @returns The library, or `undefined` if it is not installed.
+ */
+function loadPermissionsLibrary() {
+  try {
+    return require('react-native-permissions');
+  } catch (e) {
+    console.warn('react-native-permissions not available, permissions cannot be checked on iOS:', e);
+    return undefined;
+  }
+}
+
+/**
+ * Converts a react-native-permissions result. Limited access counts as granted.
+ * @param result - The result, e.g. `RESULTS.BLOCKED`.
+ * @returns The permission status.
+ */
+function fromLibraryResult(result: string): PermissionStatus {
+  switch (result) {
+    case 'granted':
+    case 'limited':
+      return PermissionStatus.GRANTED;
+    case 'denied':
+      return PermissionStatus.DENIED;
+    case 'blocked':
+      return PermissionStatus.BLOCKED;
+    default:
+      return PermissionStatus.UNAVAILABLE;
+  }
+}
+
+/**
+ * Converts a PermissionsAndroid request result.
+ * @param result - The result, e.g. `never_ask_again`.
+ * @returns The permission status.
+ */
+function fromAndroidResult(result: string): PermissionStatus {
+  switch (result) {
+    case PermissionsAndroid.RESULTS.GRANTED:
+      return PermissionStatus.GRANTED;
+    case PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN:
+      return PermissionStatus.BLOCKED;
+    default:
+      return PermissionStatus.DENIED;
+  }
+}
+
+/**
+ * Checks the microphone and camera permissions without prompting the user.
+ * @returns A promise resolving to the status of each permission.
+ *
+ * **Note:** On Android, a permission denied for good is reported as `DENIED` until it is requested again.
+ */
+export async function checkMediaPermissions(): Promise<MediaPermissions> {
+  if (Platform.OS === 'android') {
+    const [microphone, camera] = await Promise.all([
+      PermissionsAndroid.check(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO),
+      PermissionsAndroid.check(PermissionsAndroid.PERMISSIONS.CAMERA),
+    ]);
+    return {
+      microphone: microphone ? PermissionStatus.GRANTED : PermissionStatus.DENIED,
+      camera: camera ? PermissionStatus.GRANTED : PermissionStatus.DENIED,
+    };
+  } else if (Platform.OS === 'ios') {
+    const library = loadPermissionsLibrary();
+    if (!library) {
+      return UNKNOWN_PERMISSIONS;
+    }
+    const { check, PERMISSIONS } = library;
+    const [microphone, camera] = await Promise.all([check(PERMISSIONS.IOS.MICROPHONE), check(PERMISSIONS.IOS.CAMERA)]);
+    return { microphone: fromLibraryResult(microphone), camera: fromLibraryResult(camera) };
+  }
+  console.error('checkMediaPermissions: Unknown OS.');
+  return UNKNOWN_PERMISSIONS;
+}
+
+/**
+ * Requests the microphone and camera permissions, prompting the user for those not granted yet.
+ * @returns A promise resolving to the status of each permission.
+ */
+export async function requestMediaPermissions(): Promise<MediaPermissions> {
+  if (Platform.OS === 'android') {
+    const result = await PermissionsAndroid.requestMultiple([
+      PermissionsAndroid.PERMISSIONS.RECORD_AUDIO,
+      PermissionsAndroid.PERMISSIONS.CAMERA,
+    ]);
+    return {
+      microphone: fromAndroidResult(result[PermissionsAndroid.PERMISSIONS.RECORD_AUDIO]),
+      camera: fromAndroidResult(result[PermissionsAndroid.PERMISSIONS.CAMERA]),
+    };
+  } else if (Platform.OS === 'ios') {
+    const library = loadPermissionsLibrary();
+    if (!library) {
+      return UNKNOWN_PERMISSIONS;
+    }
+    const { request, PERMISSIONS } = library;
+    // iOS shows one prompt at a time
+    const microphone = await request(PERMISSIONS.IOS.MICROPHONE);
+    const camera = await request(PERMISSIONS.IOS.CAMERA);
+    return { microphone: fromLibraryResult(microphone), camera: fromLibraryResult(camera) };
+  }
+  console.error('requestMediaPermissions: Unknown OS.');
+  return UNKNOWN_PERMISSIONS;
+}
+
+/**
+ * Checks whether a permission may be used. Unavailable and unknown permissions are not known to be missing, so they may.
+ * @param status - The permission status.
+ * @returns False if the permission is denied or blocked.
+ */
+export function isPermissionUsable(status: PermissionStatus) {
+  return status !== PermissionStatus.DENIED && status !== PermissionStatus.BLOCKED;
+}
+
+/**
+ * Opens the app page of the system settings, where the user can grant blocked permissions.
+ * @returns A promise that resolves when the settings are opened.
+ */
+export function openPermissionSettings() {
+  return Linking.openSettings();
+}
@@ -0,0 +1,187 @@
+import { IRtcEngineEventHandler, RenewTokenErrorCode } from 'react-native-agora';
+import { APIService } from '../api/apiService';
+import { getRetryDelay, isRetryable, resolveRetryPolicy, sleep } from '../api/retry';
+import { VpageConfigError, VpageError, toVpageError } from '../errors';
+import { RetryPolicy, TokenProvider } from '../types';
+
+export enum TokenRenewalError {
+  /** The token provider failed, after retries. */
+  PROVIDER_FAILED = 'PROVIDER_FAILED',
+  /** The token provider returned no token. */
+  NO_TOKEN = 'NO_TOKEN',
+  /** The RTC engine refused the token, see `code`. */
+  ENGINE_REJECTED = 'ENGINE_REJECTED',
+}
+
+export type TokenRenewalResult =
+  | { ok: true; token: string }
+  | { ok: false; reason: TokenRenewalError; message: string; error?: VpageError; code?: number };
+
+export type TokenRenewalFailure = Extract<TokenRenewalResult, { ok: false }>;
+
+export type TokenRenewalOptions = {
+  /**
+   * Fetches a fresh RTC token.
+   * Default is to call `createMeeting` again with `apiService`, `appointmentId` and `customerIp`, and read its `code`.
+   */
+  provider?: TokenProvider;
+  apiService?: APIService;
+  appointmentId?: string;
+  customerIp?: string;
+  /** Backoff between failed provider calls. Default is 3 attempts. */
+  retry?: RetryPolicy;
+};
+
+/**
+ * Creates a token provider calling `createMeeting` again, which issues a fresh RTC token in `code`.
+ * @param apiService - The APIService used to create the meeting.
+ * @param appointmentId - The ID of the appointment.
+ * @param customerIp - The customer's public IP address.
+ * @returns The token provider.
+ */
+export function createMeetingTokenProvider(apiService: APIService, appointmentId: string, customerIp: string): TokenProvider {
+  return async () => {
+    const res = await apiService.createMeeting(appointmentId, customerIp, null, { retry: false });
+    return res.data?.code;
+  };
+}
+
+/**
+ * TokenRenewal renews the RTC token when the engine reports it is about to expire or has expired.
+ * The token is fetched from the provider with retries, then passed to the engine.
+ * Concurrent renewals share the one in progress.
+ * A renewal is only reported as successful once the engine confirms it in `onRenewTokenResult`.
+ */
+class TokenRenewal {
+  private provider: TokenProvider;
+  private retryPolicy: Required<RetryPolicy>;
+  private renewToken: (token: string) => number;
+  private onResult: (result: TokenRenewalResult) => void;
+  private renewing?: Promise<TokenRenewalResult>;
+  private controller = new AbortController();
+
+  /**
+   * Event handler to register on the RTC engine.
+   */
+  handler: IRtcEngineEventHandler = {
+    onTokenPrivilegeWillExpire: () => {
+      this.renew();
+    },
+    onRequestToken: () => {
+      this.renew();
+    },
+    onRenewTokenResult: (connection, token, code) => {
+      if (this.controller.signal.aborted || code === RenewTokenErrorCode.RenewTokenCanceledByNewRequest) {
+        return;
+      }
+      if (code === RenewTokenErrorCode.RenewTokenSuccess) {
+        this.onResult({ ok: true, token });
+      } else {
+        this.onResult({ ok: false, reason: TokenRenewalError.ENGINE_REJECTED, message: `Token renewal rejected with code ${code}`, code });
+      }
+    },
+  };
+
+  /**
+   * Creates an instance of TokenRenewal.
+   * @param renewToken - Passes a fresh token to the RTC engine.
+   * @param onResult - Called with the result of every renewal: on failure, or when the engine confirms the new token.
+   * @param options - The token provider, or the meeting to create again, and the retry policy.
+   */
+  constructor(renewToken: (token: string) => number, onResult: (result: TokenRenewalResult) => void, options: TokenRenewalOptions) {
+    const { provider, apiService, appointmentId, customerIp } = options;
+    if (provider) {
+      this.provider = provider;
+    } else if (apiService && appointmentId && customerIp) {
+      this.provider = createMeetingTokenProvider(apiService, appointmentId, customerIp);
+    } else {
+      throw new VpageConfigError('Token renewal needs a provider, or an apiService, appointmentId and customerIp.');
+    }
+    this.renewToken = renewToken;
+    this.onResult = onResult;
+    this.retryPolicy = resolveRetryPolicy({ maxAttempts: 3, ...options.retry });
+  }
+
+  /**
+   * Fetches a fresh token and passes it to the engine. Concurrent calls share the renewal in progress.
+   * @returns A promise resolving to the result of the renewal. On success, the token was passed to the engine,
+   * which confirms or rejects it later in `onRenewTokenResult`.
+   */
+  renew(): Promise<TokenRenewalResult> {
+    if (!this.renewing) {
+      this.renewing = this.runRenewal().finally(() => {
+        this.renewing = undefined;
+      });
+    }
+    return this.renewing;
+  }
+
+  /**
+   * Fetches the token with retries, then passes it to the engine.
+   * Failures are reported right away, success is reported by the engine in `onRenewTokenResult`.
+   * @returns A promise resolving to the result of the renewal.
+   */
+  private async runRenewal(): Promise<TokenRenewalResult> {
+    let result: TokenRenewalResult;
+    try {
+      const token = await this.fetchToken();
+      if (!token) {
+        result = { ok: false, reason: TokenRenewalError.NO_TOKEN, message: 'Token provider returned no token' };
+      } else if (this.controller.signal.aborted) {
+        return { ok: false, reason: TokenRenewalError.PROVIDER_FAILED, message: 'Token renewal stopped' };
+      } else {
+        const code = this.renewToken(token);
+        if (code >= 0) {
+          return { ok: true, token };
+        }
+        result = { ok: false, reason: TokenRenewalError.ENGINE_REJECTED, message: `renewToken failed with code ${code}`, code };
+      }
+    } catch (error) {
+      const vpageError = toVpageError(error);
+      result = { ok: false, reason: TokenRenewalError.PROVIDER_FAILED, message: vpageError.message, error: vpageError };
+    }
+    if (!this.controller.signal.aborted) {
+      this.onResult(result);
+    }
+    return result;
+  }
+
+  /**
+   * Calls the token provider, retrying with backoff while the policy allows it.
+   * @returns A promise resolving to the token.
+   */
+  private async fetchToken() {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.provider();
+      } catch (error) {
+        const vpageError = toVpageError(error);
+        if (attempt >= this.retryPolicy.maxAttempts || !isRetryable(vpageError, this.retryPolicy)) {
+          throw vpageError;
+        }
+        await sleep(getRetryDelay(this.retryPolicy, attempt), this.controller.signal);
+      }
+    }
+  }
+
+  /**
+   * Stops the renewal in progress. Its result is not reported.
+   */
+  dispose() {
+    this.controller.abort();
+  }
+}
+
+/**
+ * Creates and returns a new instance of TokenRenewal.
+ * @param renewToken - Passes a fresh token to the RTC engine.
+ * @param onResult - Called with the result of every renewal: on failure, or when the engine confirms the new token.
+ * @param options - The token provider, or the meeting to create again, and the retry policy.
+ * @returns A new instance of TokenRenewal.
+ */
+export function createTokenRenewal(renewToken: (token: string) => number, onResult: (result: TokenRenewalResult) => void, options: TokenRenewalOptions) {
+  return new TokenRenewal(renewToken, onResult, options);
+}
+
+// Export for external use
+export type { TokenRenewal };
@@ -1,4 +1,3 @@
-import { PermissionsAndroid, Platform } from 'react-native';
 import {
   ChannelProfileType,
   ClientRoleType,
@@ -10,6 +9,14 @@ import {
   ChannelMediaOptions,
   RtcEngineContext,
 } from 'react-native-agora';
+import { Emitter } from '../utils/emitter';
+import { SocketService } from '../websocket';
+import { AdaptiveVideoOptions, AdaptiveVideoPolicy, VideoQuality, createAdaptiveVideoPolicy } from './adaptiveVideo';
+import { CallState, CallStateListener, CallStateStore } from './callState';
+import { DeviceTest, DeviceTestOptions, DeviceTestReport, createDeviceTest } from './deviceTest';
+import { MediaPermissions, PermissionStatus, checkMediaPermissions, isPermissionUsable, openPermissionSettings, requestMediaPermissions } from './permissions';
+import { TokenRenewal, TokenRenewalFailure, TokenRenewalOptions, createTokenRenewal } from './tokenRenewal';
+import { VIDEO_PROFILES, VideoProfile } from './videoProfile';
 
 /**
  * Creates and returns a new RTC engine instance.
@@ -19,21 +26,48 @@ export function createVekycEngine(): IRtcEngine {
   return createAgoraRtcEngine();
 }
 
+export type VekycEvents = {
+  /** The RTC token was renewed, as confirmed by the engine. */
+  tokenRenewed: [token: string];
+  /** The RTC token could not be renewed. The call drops once the token expires. */
+  tokenRenewalFailed: [failure: TokenRenewalFailure];
+};
+
 class VekycService {
   private engine?: IRtcEngine;
   private eventHandler?: IRtcEngineEventHandler;
+  private eventHandlers = new Set<IRtcEngineEventHandler>();
+  private callState = new CallStateStore();
+  private events = new Emitter<VekycEvents>();
+  private tokenRenewal?: TokenRenewal;
+  private networkQualityHandler?: IRtcEngineEventHandler;
+  private permissions?: MediaPermissions;
+  private deviceTest?: DeviceTest;
+  private videoProfile?: VideoProfile;
+  private adaptiveVideo?: AdaptiveVideoPolicy;
+  /** True while the local video is muted by the adaptive video policy. */
+  private audioOnly = false;
 
   /**
    * Requests the necessary permissions for audio and video on Android and iOS devices.
-   * @returns A promise resolving to an object containing the permission statuses for each requested permission.
-   * 
-   * **Note:** 
-   * - On Android, the function will request permissions for the microphone and camera and return their statuses.
-   * - On iOS, the function will return default `true` values for both microphone and camera permissions.
-   * - On unsupported platforms, the function will also return default `true` values for both permissions.
-   * 
-   * **Important:** For iOS, add the required permissions to your `Info.plist` file:
-   * 
+   * @returns A promise resolving to an object containing `true` for each permission that is granted.
+   * @deprecated Use `requestPermissions`, which tells denied permissions from blocked ones.
+   */
+  async getPermissions(): Promise<{ microphone: boolean; camera: boolean }> {
+    const permissions = await this.requestPermissions();
+    return {
+      microphone: permissions.microphone === PermissionStatus.GRANTED,
+      camera: permissions.camera === PermissionStatus.GRANTED,
+    };
+  }
+
+  /**
+   * Checks the microphone and camera permissions without prompting the user.
+   * @returns A promise resolving to the status of each permission.
+   *
+   * **Important:** On iOS, install `react-native-permissions` and enable its `Camera` and `Microphone` handlers,
+   * otherwise the permissions are reported as unknown. Add the required permissions to your `Info.plist` file:
+   *
    * ```xml
    * <key>NSCameraUsageDescription</key>
    * <string>We need access to your camera to capture video.</string>
@@ -41,47 +75,36 @@ class VekycService {
    * <string>We need access to your microphone to capture audio.</string>
    * ```
    */
-  async getPermissions(): Promise<{ microphone: boolean; camera: boolean }> {
-    if (Platform.OS === 'android') {
-      // Request permissions on Android
-      const result = await PermissionsAndroid.requestMultiple([
-        PermissionsAndroid.PERMISSIONS.RECORD_AUDIO,
-        PermissionsAndroid.PERMISSIONS.CAMERA,
-      ]);
-      return {
-        microphone: result[PermissionsAndroid.PERMISSIONS.RECORD_AUDIO] === PermissionsAndroid.RESULTS.GRANTED,
-        camera: result[PermissionsAndroid.PERMISSIONS.CAMERA] === PermissionsAndroid.RESULTS.GRANTED,
-      };
-    } else if (Platform.OS === 'ios') {
-      // try {
-      //   // Request permissions on iOS using react-native-permissions
-      //   const { request, PERMISSIONS, RESULTS } = require('react-native-permissions');
-      //   const cameraStatus = await request(PERMISSIONS.IOS.CAMERA);
-      //   const microphoneStatus = await request(PERMISSIONS.IOS.MICROPHONE);
-  
-      //   return {
-      //     microphone: microphoneStatus === RESULTS.GRANTED,
-      //     camera: cameraStatus === RESULTS.GRANTED,
-      //   };
-      // } catch (error) {
-      //   console.error('Error requesting permissions on iOS:', error);
-      //   return {
-      //     microphone: true,
-      //     camera: true,
-      //   };
-      // }
-      return {
-        microphone: true,
-        camera: true,
-      };
-    } else {
-      // Handle unsupported platforms
-      console.error('getPermissions: Unknown OS.');
-      return {
-        microphone: true,
-        camera: true,
-      };
-    }
+  async checkPermissions(): Promise<MediaPermissions> {
+    this.permissions = await checkMediaPermissions();
+    return this.permissions;
+  }
+
+  /**
+   * Requests the microphone and camera permissions, prompting the user for those not granted yet.
+   * Blocked permissions can only be granted from the system settings, see `openSettings`.
+   * @returns A promise resolving to the status of each permission.
+   */
+  async requestPermissions(): Promise<MediaPermissions> {
+    this.permissions = await requestMediaPermissions();
+    return this.permissions;
+  }
+
+  /**
+   * Opens the app page of the system settings, where the user can grant blocked permissions.
+   * Check the permissions again when the app comes back to the foreground.
+   * @returns A promise that resolves when the settings are opened.
+   */
+  openSettings() {
+    return openPermissionSettings();
+  }
+
+  /**
+   * Gets the permission statuses from the last check or request.
+   * @returns The status of each permission, or `undefined` if they were not checked yet.
+   */
+  getPermissionStatus() {
+    return this.permissions;
   }
 
   /**
@@ -93,11 +116,14 @@ class VekycService {
     if (!this.engine) {
       this.engine = createAgoraRtcEngine();
     }
-    return this.engine.initialize({ appId });
+    const result = this.engine.initialize({ appId });
+    this.engine.registerEventHandler(this.callState.handler);
+    return result;
   }
 
   /**
-   * Registers an event handler for receiving RTC engine callbacks.
+   * Registers an event handler for receiving RTC engine callbacks, replacing the one registered previously.
+   * Use `addEventHandler` to register several handlers.
    * @param eventHandler - An object implementing the IRtcEngineEventHandler interface.
    * @returns True if the handler was successfully registered, or `undefined` if the engine is not initialized.
    */
@@ -106,19 +132,276 @@ class VekycService {
       console.error('Engine is not initialized.');
       return;
     }
+    if (this.eventHandler && this.eventHandler !== eventHandler) {
+      this.engine.unregisterEventHandler(this.eventHandler);
+    }
     this.eventHandler = eventHandler;
     return this.engine.registerEventHandler(this.eventHandler);
   }
 
+  /**
+   * Adds an event handler for receiving RTC engine callbacks, alongside the other registered handlers.
+   * @param eventHandler - An object implementing the IRtcEngineEventHandler interface.
+   * @returns A function that removes the handler, or `undefined` if the engine is not initialized.
+   */
+  addEventHandler(eventHandler: IRtcEngineEventHandler) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    this.eventHandlers.add(eventHandler);
+    this.engine.registerEventHandler(eventHandler);
+    return () => {
+      if (this.eventHandlers.delete(eventHandler)) {
+        this.engine?.unregisterEventHandler(eventHandler);
+      }
+    };
+  }
+
+  /**
+   * Registers a listener for a service event, e.g. `tokenRenewalFailed`.
+   * @param event - The event to listen to.
+   * @param listener - The listener to call with the event arguments.
+   * @returns A function that unregisters the listener.
+   */
+  on<K extends keyof VekycEvents>(event: K, listener: (...args: VekycEvents[K]) => void) {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Gets the current call state.
+   * @returns The call state, kept up to date from the RTC engine callbacks.
+   */
+  getCallState(): CallState {
+    return this.callState.get();
+  }
+
+  /**
+   * Registers a listener called whenever the call state changes.
+   * @param listener - The listener to call with the new and the previous state.
+   * @returns A function that unregisters the listener.
+   */
+  subscribeCallState(listener: CallStateListener) {
+    return this.callState.subscribe(listener);
+  }
+
+  /**
+   * Tests the camera, microphone, audio playback and network before the call, without joining a channel.
+   * Render an `RtcSurfaceView` with UID 0 to show the local preview during the test.
+   * The report is logged as `CUSTOMER_TEST_CAM_MIC` when `apiService` or `auditLog` is given, and a logging failure is returned as its `logError`.
+   * @param options - (Optional) Step durations, thresholds and logging options.
+   * @returns A promise resolving to the report, or `undefined` if the engine is not initialized or a test is already running.
+   */
+  async runDeviceTest(options: DeviceTestOptions = {}): Promise<DeviceTestReport | undefined> {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    if (this.deviceTest) {
+      console.error('Device test is already running.');
+      return;
+    }
+    this.deviceTest = createDeviceTest(this.engine, options, this.permissions);
+    try {
+      return await this.deviceTest.run();
+    } finally {
+      this.deviceTest = undefined;
+    }
+  }
+
+  /**
+   * Stops the running device test. Its report is not logged.
+   */
+  stopDeviceTest() {
+    this.deviceTest?.stop();
+  }
+
+  /**
+   * Sets the video encoder profile, before or during the call.
+   * With adaptive video enabled, it is the best profile used, which the policy steps down from when the uplink degrades.
+   * @param profile - The profile, e.g. `VideoProfile.DOCUMENT` while the customer holds up an ID card.
+   * @returns 0 if successful, a negative value if the operation fails, or `undefined` if the engine is not initialized.
+   */
+  setVideoProfile(profile: VideoProfile) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    this.videoProfile = profile;
+    if (this.adaptiveVideo) {
+      this.adaptiveVideo.setProfile(profile);
+      return 0;
+    }
+    return this.applyVideoQuality({ profile, audioOnly: false });
+  }
+
+  /**
+   * Gets the video quality in use.
+   * @returns The profile and whether the call is audio-only, or `undefined` if no profile was set.
+   */
+  getVideoQuality(): VideoQuality | undefined {
+    if (this.adaptiveVideo) {
+      return this.adaptiveVideo.getQuality();
+    }
+    return this.videoProfile && { profile: this.videoProfile, audioOnly: false };
+  }
+
+  /**
+   * Enables the adaptive video policy, which steps the profile down when the uplink degrades, down to audio-only,
+   * and back up to the profile set with `setVideoProfile` once the uplink recovers.
+   * @param options - (Optional) Thresholds of the policy.
+   * @returns True if the handler was successfully registered, or `undefined` if the engine is not initialized.
+   */
+  enableAdaptiveVideo(options: AdaptiveVideoOptions = {}) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    this.disableAdaptiveVideo();
+    this.videoProfile = this.videoProfile || VideoProfile.STANDARD;
+    this.adaptiveVideo = createAdaptiveVideoPolicy((quality) => this.applyVideoQuality(quality), this.videoProfile, options);
+    return this.engine.registerEventHandler(this.adaptiveVideo.handler);
+  }
+
+  /**
+   * Disables the adaptive video policy and restores the profile set with `setVideoProfile`, publishing the video again if the policy had stopped it.
+   * @returns True if the handler was successfully unregistered, false otherwise.
+   */
+  disableAdaptiveVideo() {
+    if (!this.engine || !this.adaptiveVideo) {
+      return false;
+    }
+    const result = this.engine.unregisterEventHandler(this.adaptiveVideo.handler);
+    this.adaptiveVideo = undefined;
+    if (this.videoProfile) {
+      this.applyVideoQuality({ profile: this.videoProfile, audioOnly: false });
+    }
+    return result;
+  }
+
+  /**
+   * Applies a video quality to the RTC engine.
+   * The local video is only muted or unmuted when entering or leaving audio-only, so a mute set by the app is kept otherwise.
+   * @param quality - The encoder profile and whether to stop publishing the local video.
+   * @returns 0 if successful, or a negative value if the operation fails.
+   */
+  private applyVideoQuality(quality: VideoQuality) {
+    if (!this.engine) {
+      return;
+    }
+    const result = this.engine.setVideoEncoderConfiguration(VIDEO_PROFILES[quality.profile]);
+    if (quality.audioOnly !== this.audioOnly) {
+      this.audioOnly = quality.audioOnly;
+      this.engine.muteLocalVideoStream(quality.audioOnly);
+    }
+    return result;
+  }
+
+  /**
+   * Passes a fresh RTC token to the engine before the current one expires.
+   * @param token - The new token.
+   * @returns 0 if successful, or a negative value if the operation fails.
+   */
+  renewToken(token: string) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    return this.engine.renewToken(token);
+  }
+
+  /**
+   * Renews the RTC token automatically when the engine reports it is about to expire or has expired.
+   * The token is fetched from the provider, by default by calling `createMeeting` again. `tokenRenewed` is emitted
+   * once the engine confirms the new token, `tokenRenewalFailed` when fetching or renewing it fails.
+   * @param options - The token provider, or the APIService, appointment and customer IP to create the meeting again.
+   * @returns True if the handler was successfully registered, or `undefined` if the engine is not initialized.
+   * @throws {VpageConfigError} If neither a provider nor the meeting to create again is given.
+   */
+  enableTokenRenewal(options: TokenRenewalOptions) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    const tokenRenewal = createTokenRenewal(
+      (token) => this.renewToken(token) ?? -1,
+      (result) => {
+        if (result.ok) {
+          this.events.emit('tokenRenewed', result.token);
+        } else {
+          this.events.emit('tokenRenewalFailed', result);
+        }
+      },
+      options
+    );
+    this.disableTokenRenewal();
+    this.tokenRenewal = tokenRenewal;
+    return this.engine.registerEventHandler(tokenRenewal.handler);
+  }
+
+  /**
+   * Stops renewing the RTC token automatically.
+   * @returns True if the handler was successfully unregistered, false otherwise.
+   */
+  disableTokenRenewal() {
+    if (!this.engine || !this.tokenRenewal) {
+      return false;
+    }
+    this.tokenRenewal.dispose();
+    const result = this.engine.unregisterEventHandler(this.tokenRenewal.handler);
+    this.tokenRenewal = undefined;
+    return result;
+  }
+
+  /**
+   * Links the RTC engine to a SocketService, so the local network quality is reported to the server automatically.
+   * The socket service throttles the updates, decides when the network is low and emits `networkQualityChanged`.
+   * @param socketService - The SocketService sending the network status.
+   * @returns True if the handler was successfully registered, or `undefined` if the engine is not initialized.
+   */
+  linkSocketService(socketService: SocketService) {
+    if (!this.engine) {
+      console.error('Engine is not initialized.');
+      return;
+    }
+    this.unlinkSocketService();
+    this.networkQualityHandler = {
+      onNetworkQuality: (connection, remoteUid, txQuality, rxQuality) => {
+        // Remote UID 0 is the local user
+        if (remoteUid === 0) {
+          socketService.reportNetworkQuality(rxQuality, txQuality);
+        }
+      },
+    };
+    return this.engine.registerEventHandler(this.networkQualityHandler);
+  }
+
+  /**
+   * Stops reporting the network quality to the linked SocketService.
+   * @returns True if the handler was successfully unregistered, false otherwise.
+   */
+  unlinkSocketService() {
+    if (!this.engine || !this.networkQualityHandler) {
+      return false;
+    }
+    const result = this.engine.unregisterEventHandler(this.networkQualityHandler);
+    this.networkQualityHandler = undefined;
+    return result;
+  }
+
   /**
    * Joins a channel as a broadcaster with the specified options.
+   * Refuses to join when a permission needed by a published track is denied or blocked,
+   * as reported by the last `checkPermissions` or `requestPermissions`. Permissions are checked first if they were not yet.
    * @param token - The token for authentication.
    * @param channelName - The name of the channel to join.
    * @param localUid - The UID of the local user.
    * @param options - (Optional) Additional channel media options.
-   * @returns 0 if successful, or a negative value if the operation fails.
+   * @returns A promise resolving to 0 if successful, a negative value if the operation fails,
+   * or `undefined` if the engine is not initialized, permissions are missing or the device test is running.
    */
-  joinChannel(token: string, channelName: string, localUid: number, options: ChannelMediaOptions = {}) {
+  async joinChannel(token: string, channelName: string, localUid: number, options: ChannelMediaOptions = {}): Promise<number | undefined> {
+    const permissions = this.permissions ?? (await this.checkPermissions());
     if (!this.engine) {
       console.error('Engine is not initialized.');
       return;
@@ -132,9 +415,44 @@ class VekycService {
       autoSubscribeVideo: true,
       ...options,
     };
+    if (this.deviceTest) {
+      console.error('Cannot join channel while the device test is running.');
+      return;
+    }
+    const missing = this.getMissingPermissions(permissions, opts);
+    if (missing.length > 0) {
+      console.error(`Cannot join channel, missing permissions: ${missing.join(', ')}.`);
+      return;
+    }
     return this.engine.joinChannel(token, channelName, localUid, opts);
   }
 
+  /**
+   * Lists the permissions needed by the published tracks that are denied or blocked.
+   * @param permissions - The media permissions.
+   * @param options - The channel media options.
+   * @returns The missing permissions with their status, e.g. `camera (blocked)`.
+   */
+  private getMissingPermissions(permissions: MediaPermissions, options: ChannelMediaOptions) {
+    const needed: (keyof MediaPermissions)[] = [];
+    if (options.publishMicrophoneTrack) {
+      needed.push('microphone');
+    }
+    if (options.publishCameraTrack) {
+      needed.push('camera');
+    }
+    const unknown = needed.filter((permission) => permissions[permission] === PermissionStatus.UNKNOWN);
+    if (unknown.length > 0) {
+      console.warn(
+        `Joining the channel without knowing whether ${unknown.join(' and ')} access is granted. ` +
+          'On iOS, install react-native-permissions with its Camera and Microphone handlers, so missing permissions are caught before joining.'
+      );
+    }
+    return needed
+      .filter((permission) => !isPermissionUsable(permissions[permission]))
+      .map((permission) => `${permission} (${permissions[permission]})`);
+  }
+
   /**
    * Enables video functionality in the RTC engine.
    * @returns 0 if successful, or a negative value if the operation fails.
@@ -169,7 +487,11 @@ class VekycService {
       console.error('Engine is not initialized.');
       return;
     }
-    return this.engine.enableLocalAudio(isEnabled);
+    const result = this.engine.enableLocalAudio(isEnabled);
+    if (result >= 0) {
+      this.callState.update({ microphoneEnabled: isEnabled });
+    }
+    return result;
   }
 
   /**
@@ -220,21 +542,37 @@ class VekycService {
     if (!this.eventHandler) {
       return false;
     }
-    return this.engine.unregisterEventHandler(this.eventHandler);
+    const result = this.engine.unregisterEventHandler(this.eventHandler);
+    this.eventHandler = undefined;
+    return result;
   }
 
   /**
    * Cleans up the RTC engine and releases all resources.
-   * Stops the preview, leaves the channel, unregisters the event handler, and releases the engine.
+   * Stops the preview, leaves the channel, unregisters the event handlers, resets the call state, and releases the engine.
+   * Listeners registered with `on` and `subscribeCallState` stay registered for the next `initialize`.
    */
   cleanup() {
     if (!this.engine) {
       console.warn('Engine is not initialized, skipping cleanup...');
       return;
     }
+    this.stopDeviceTest();
     this.leaveChannel();
     this.stopPreview();
     this.unregisterEventHandler();
+    this.unlinkSocketService();
+    if (this.adaptiveVideo) {
+      this.engine.unregisterEventHandler(this.adaptiveVideo.handler);
+      this.adaptiveVideo = undefined;
+    }
+    this.videoProfile = undefined;
+    this.audioOnly = false;
+    this.disableTokenRenewal();
+    this.eventHandlers.forEach((eventHandler) => this.engine?.unregisterEventHandler(eventHandler));
+    this.eventHandlers.clear();
+    this.engine.unregisterEventHandler(this.callState.handler);
+    this.callState.reset();
     this.engine.release();
     this.engine = undefined;
   }
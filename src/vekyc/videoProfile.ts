@@ -0,0 +1,34 @@
+import { DegradationPreference, VideoEncoderConfiguration } from 'react-native-agora';
+
+export enum VideoProfile {
+  /** Sharp picture for holding up an ID card, at the cost of frame rate. */
+  DOCUMENT = 'document',
+  STANDARD = 'standard',
+  /** Small picture that survives 3G networks. */
+  LOW_BANDWIDTH = 'lowBandwidth',
+}
+
+/** Encoder configuration of every profile. Bitrates are in Kbps. */
+export const VIDEO_PROFILES: Record<VideoProfile, VideoEncoderConfiguration> = {
+  [VideoProfile.DOCUMENT]: {
+    dimensions: { width: 1280, height: 720 },
+    frameRate: 15,
+    bitrate: 1130,
+    degradationPreference: DegradationPreference.MaintainQuality,
+  },
+  [VideoProfile.STANDARD]: {
+    dimensions: { width: 640, height: 480 },
+    frameRate: 15,
+    bitrate: 500,
+    degradationPreference: DegradationPreference.MaintainBalanced,
+  },
+  [VideoProfile.LOW_BANDWIDTH]: {
+    dimensions: { width: 320, height: 240 },
+    frameRate: 15,
+    bitrate: 200,
+    degradationPreference: DegradationPreference.MaintainBalanced,
+  },
+};
+
+/** Profiles from the best picture to the lowest bandwidth. */
+export const VIDEO_PROFILE_ORDER: VideoProfile[] = [VideoProfile.DOCUMENT, VideoProfile.STANDARD, VideoProfile.LOW_BANDWIDTH];
@@ -0,0 +1,74 @@
+import { ContractAction } from '../../api/apiService';
+import { createFakeStompBroker } from '../../testing';
+import { parseNotifyMessage } from '../notifyMessage';
+import { createSocketService } from '../socketService';
+
+/**
+ * Waits until a condition holds, checking every few milliseconds.
+ * @param condition - The condition to wait for.
+ * @param timeout - (Optional) The maximum time to wait in milliseconds. Default is 2000.
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('parseNotifyMessage', () => {
+  it('reads the action from actionHistory', () => {
+    const result = parseNotifyMessage(JSON.stringify({ actionHistory: 'OTP_CONFIRM', detail: { otp: '1234' }, timestamp: 1 }));
+
+    expect(result).toEqual({
+      ok: true,
+      message: {
+        action: ContractAction.OTP_CONFIRM,
+        detail: { otp: '1234' },
+        sessionKey: undefined,
+        timestamp: 1,
+        body: { actionHistory: 'OTP_CONFIRM', detail: { otp: '1234' }, timestamp: 1 },
+      },
+    });
+  });
+
+  it('validates the CUSTOMER_CONFIRM detail, narrowed by the action', () => {
+    const contract = { name: 'Contract', url: 'https://vekyc.test/contract.pdf', fileType: 'pdf', hash: 'abc', size: 3 };
+    const result = parseNotifyMessage(JSON.stringify({ actionHistory: 'CUSTOMER_CONFIRM', detail: { contracts: [contract] } }));
+
+    const hashes = result.ok && result.message.action === ContractAction.CUSTOMER_CONFIRM ? result.message.detail?.contracts.map(({ hash }) => hash) : [];
+    expect(hashes).toEqual(['abc']);
+    expect(parseNotifyMessage(JSON.stringify({ action: 'CUSTOMER_CONFIRM', detail: { contracts: [{ ...contract, size: '3' }] } }))).toMatchObject({
+      ok: false,
+      unknown: { reason: 'invalid', action: 'CUSTOMER_CONFIRM', issues: [{ path: 'detail.contracts[0].size', expected: 'number', received: 'string' }] },
+    });
+  });
+
+  it('reports unknown actions and invalid frames', () => {
+    expect(parseNotifyMessage('{"action":"SOMETHING_NEW"}')).toMatchObject({ ok: false, unknown: { reason: 'unknown_action', action: 'SOMETHING_NEW' } });
+    expect(parseNotifyMessage('{"action":42}')).toMatchObject({ ok: false, unknown: { reason: 'invalid', action: undefined } });
+    expect(parseNotifyMessage('[]')).toMatchObject({ ok: false, unknown: { reason: 'invalid', body: [] } });
+    expect(parseNotifyMessage('not json')).toMatchObject({ ok: false, unknown: { reason: 'invalid', body: 'not json' } });
+  });
+});
+
+describe('SocketService notifications', () => {
+  it('keeps the app handlers across cleanup and a new initialize', async () => {
+    const broker = createFakeStompBroker();
+    const socketService = createSocketService();
+    const onAgentEndCall = jest.fn();
+    socketService.notifications.on(ContractAction.AGENT_END_CALL, onAgentEndCall);
+
+    for (const [index, channelName] of ['channel-1', 'channel-2'].entries()) {
+      socketService.initialize('https://vekyc.test', channelName, 'api-token', undefined, { transport: broker.transport });
+      socketService.subscribeSessionNotifyTopic();
+      socketService.connect(socketService.getDeviceInfo());
+      await waitFor(() => broker.getSubscriptions().includes(`/user/${channelName}/notify`));
+      broker.notifySession(channelName, { action: ContractAction.AGENT_END_CALL });
+      await waitFor(() => onAgentEndCall.mock.calls.length === index + 1);
+      await socketService.cleanup();
+    }
+  });
+});
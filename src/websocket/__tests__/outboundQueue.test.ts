@@ -0,0 +1,41 @@
+import { Client } from '@stomp/stompjs';
+import { OutboundQueue } from '../outboundQueue';
+
+describe('OutboundQueue', () => {
+  let connected: boolean;
+  let publish: jest.Mock;
+  let queue: OutboundQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    connected = false;
+    publish = jest.fn();
+    queue = new OutboundQueue(() => ({ connected, publish }) as unknown as Client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('builds the headers and the body when the message is published, not when it is queued', () => {
+    let socketId = 'socket-1';
+    queue.send('/app/network', () => ({ socketId }), () => JSON.stringify({ socketId }));
+
+    socketId = 'socket-2';
+    connected = true;
+    queue.flush();
+
+    expect(publish).toHaveBeenCalledWith({ destination: '/app/network', headers: { socketId: 'socket-2' }, body: '{"socketId":"socket-2"}' });
+  });
+
+  it('drops a message without a time to live after 30 seconds', () => {
+    queue.send('/app/stale', {});
+    queue.send('/app/kept', {}, undefined, { ttl: Infinity });
+
+    jest.advanceTimersByTime(30000);
+    connected = true;
+    queue.flush();
+
+    expect(publish.mock.calls.map(([message]) => message.destination)).toEqual(['/app/kept']);
+  });
+});
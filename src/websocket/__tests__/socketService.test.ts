@@ -0,0 +1,149 @@
+import { IMessage } from '@stomp/stompjs';
+import { FakeStompBroker, createFakeStompBroker } from '../../testing';
+import { NetworkQuality } from '../networkQuality';
+import { ConnectionState, HeartbeatStats, SocketOptions, SocketService, createSocketService } from '../socketService';
+
+/**
+ * Waits until a condition holds, checking every few milliseconds.
+ * @param condition - The condition to wait for.
+ * @param timeout - (Optional) The maximum time to wait in milliseconds. Default is 2000.
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Initializes a socket service on the broker and waits until it is connected.
+ * @param socketService - The socket service.
+ * @param broker - The broker to connect to.
+ * @param options - (Optional) Socket options, e.g. the reconnection backoff.
+ */
+async function connectTo(socketService: SocketService, broker: FakeStompBroker, options: SocketOptions = {}) {
+  socketService.initialize('https://vekyc.test', 'channel-1', 'api-token', undefined, { ...options, transport: broker.transport });
+  socketService.connect(socketService.getDeviceInfo());
+  await waitFor(() => socketService.getConnectionState() === ConnectionState.CONNECTED);
+}
+
+describe('SocketService', () => {
+  let broker: FakeStompBroker;
+  let socketService: SocketService;
+
+  beforeEach(() => {
+    broker = createFakeStompBroker();
+    socketService = createSocketService();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await socketService.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the stateChange listeners across cleanup and a new connect', async () => {
+    const states: ConnectionState[] = [];
+    socketService.on('stateChange', (state) => states.push(state));
+
+    await connectTo(socketService, broker);
+    await socketService.cleanup();
+    await connectTo(socketService, broker);
+
+    expect(states).toEqual([
+      ConnectionState.CONNECTING,
+      ConnectionState.CONNECTED,
+      ConnectionState.DISCONNECTED,
+      ConnectionState.CONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+  });
+
+  it('replays the subscriptions on the new socket ID after a reconnect', async () => {
+    const onSocketNotify = jest.fn();
+    await connectTo(socketService, broker, { reconnect: { baseDelay: 10 } });
+    socketService.subscribeSessionNotifyTopic(jest.fn());
+    socketService.subscribeSocketNotifyTopic(onSocketNotify);
+    const firstSocketId = socketService.getSocketId();
+    await waitFor(() => broker.getSubscriptions().length === 2);
+
+    broker.dropConnections();
+    await waitFor(() => socketService.getSocketId() !== firstSocketId && socketService.getConnectionState() === ConnectionState.CONNECTED);
+    const socketId = socketService.getSocketId();
+    await waitFor(() => broker.getSubscriptions().length === 2);
+
+    expect(broker.getSubscriptions().sort()).toEqual(['/user/channel-1/notify', `/user/${socketId}/notify`].sort());
+    broker.notifySocket(socketId, { action: 'AGENT_END_CALL' });
+    await waitFor(() => onSocketNotify.mock.calls.length === 1);
+  });
+
+  it('keeps the topic subscribed until its last handle is unsubscribed', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    await connectTo(socketService, broker);
+    const firstHandle = socketService.subscribe('/topic/live', first);
+    const secondHandle = socketService.subscribe('/topic/live', second);
+    await waitFor(() => broker.getSubscriptions().includes('/topic/live'));
+
+    firstHandle?.unsubscribe();
+    broker.publish('/topic/live', 'update');
+    await waitFor(() => second.mock.calls.length === 1);
+
+    expect(first).not.toHaveBeenCalled();
+    expect((second.mock.calls[0][0] as IMessage).body).toBe('update');
+    expect(socketService.getSubscriptions()).toEqual([expect.objectContaining({ topic: '/topic/live', handlers: [secondHandle?.id] })]);
+    secondHandle?.unsubscribe();
+    await waitFor(() => broker.getSubscriptions().length === 0);
+    expect(socketService.getSubscriptions()).toEqual([]);
+  });
+
+  it('emits the missed replies and reconnects when the connection is lost', async () => {
+    const degraded: HeartbeatStats[] = [];
+    const lost: HeartbeatStats[] = [];
+    const heartbeats: HeartbeatStats[] = [];
+    socketService.on('connectionDegraded', (stats) => degraded.push(stats));
+    socketService.on('connectionLost', (stats) => lost.push(stats));
+    socketService.on('heartbeat', (stats) => heartbeats.push(stats));
+    await connectTo(socketService, broker, { reconnect: { baseDelay: 10 } });
+    const firstSocketId = socketService.getSocketId();
+    broker.onSend('/app/healthCheck', () => {});
+
+    socketService.startHealthCheck({ interval: 20, degradedAfter: 2, lostAfter: 3 });
+    await waitFor(() => lost.length === 1);
+
+    expect(degraded).toEqual([expect.objectContaining({ missed: 2 })]);
+    expect(lost).toEqual([expect.objectContaining({ missed: 3 })]);
+    expect(heartbeats).toEqual([]);
+
+    broker.onSend('/app/healthCheck', (frame, session) => {
+      broker.publish(`/user/${session.socketId}/health`, JSON.stringify({ pingId: frame.headers.pingId }));
+    });
+    await waitFor(() => heartbeats.length > 0);
+    expect(socketService.getSocketId()).not.toBe(firstSocketId);
+    expect(heartbeats[0]).toEqual(expect.objectContaining({ missed: 0, latency: expect.any(Number) }));
+  });
+
+  it('reports a low network from lowAt until it gets back to recoverAt', async () => {
+    const qualities: NetworkQuality[] = [];
+    socketService.on('networkQualityChanged', (quality) => qualities.push(quality));
+    await connectTo(socketService, broker, { networkQuality: { lowAt: 4, recoverAt: 2, interval: 0 } });
+
+    for (const uplink of [3, 4, 3, 2, 3]) {
+      socketService.reportNetworkQuality(1, uplink);
+    }
+    await waitFor(() => broker.getSent('/app/network').length === 5);
+
+    expect(qualities.map(({ uplink, isLow }) => [uplink, isLow])).toEqual([
+      [3, false],
+      [4, true],
+      [3, true],
+      [2, false],
+      [3, false],
+    ]);
+    expect(broker.getSent('/app/network').map((frame) => JSON.parse(frame.body).isLow)).toEqual([undefined, 'true', 'true', undefined, undefined]);
+  });
+});
@@ -0,0 +1,36 @@
+describe('transports without sockjs-client', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    jest.doMock('sockjs-client', () => {
+      throw new Error("Cannot find module 'sockjs-client'");
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.dontMock('sockjs-client');
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to create a SockJS transport', () => {
+    const { createSockJSTransport } = require('../transport') as typeof import('../transport');
+    const { VpageConfigError } = require('../../errors') as typeof import('../../errors');
+
+    expect(() => createSockJSTransport()).toThrow(VpageConfigError);
+  });
+
+  it('falls back to native WebSockets by default', () => {
+    const { createDefaultTransport } = require('../transport') as typeof import('../transport');
+    const WebSocket = jest.fn();
+    Object.defineProperty(globalThis, 'WebSocket', { value: WebSocket, configurable: true });
+
+    try {
+      createDefaultTransport().connect('https://vekyc.test/ws', 'socket-1');
+    } finally {
+      delete (globalThis as { WebSocket?: unknown }).WebSocket;
+    }
+
+    expect(WebSocket).toHaveBeenCalledWith(expect.stringMatching(/^wss:\/\/vekyc\.test\/ws\/\d{3}\/socket-1\/websocket$/), expect.any(Array));
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
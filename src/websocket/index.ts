@@ -1 +1,4 @@
 export * from './socketService';
+export * from './notifyMessage';
+export * from './transport';
+export type { NetworkQuality, NetworkQualityOptions } from './networkQuality';
@@ -0,0 +1,156 @@
+export type NetworkQualityOptions = {
+  /** Quality from which the network counts as low, on the Agora `QualityType` scale. Default is 4 (bad). */
+  lowAt?: number;
+  /** Quality the network must get back to before it no longer counts as low. Default is 2 (good). */
+  recoverAt?: number;
+  /** Minimum interval between network status updates sent to the server in milliseconds. Default is 2000. */
+  interval?: number;
+};
+
+export type NetworkQuality = {
+  /** Downlink quality on the Agora `QualityType` scale, from 1 (excellent) to 6 (down). */
+  downlink: number;
+  /** Uplink quality on the Agora `QualityType` scale, from 1 (excellent) to 6 (down). */
+  uplink: number;
+  isLow: boolean;
+};
+
+const DEFAULT_NETWORK_QUALITY_OPTIONS: Required<NetworkQualityOptions> = {
+  lowAt: 4,
+  recoverAt: 2,
+  interval: 2000,
+};
+
+/** Agora `QualityType` values from excellent (1) to down (6). Unknown, unsupported and detecting carry no information. */
+const MIN_QUALITY = 1;
+const MAX_QUALITY = 6;
+
+/**
+ * NetworkQualityMonitor turns raw network quality reports into network status updates.
+ * The network counts as low from `lowAt` until it gets back to `recoverAt`, so a quality hovering around the threshold does not flap.
+ * Updates are deduplicated and throttled to one per `interval`, except when the network becomes low or recovers.
+ */
+export class NetworkQualityMonitor {
+  private options = DEFAULT_NETWORK_QUALITY_OPTIONS;
+  private current?: NetworkQuality;
+  private lastSent?: NetworkQuality;
+  private lastSentAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates an instance of NetworkQualityMonitor.
+   * @param publish - Sends a network status update to the server.
+   * @param onChange - Called whenever the network quality changes.
+   */
+  constructor(private publish: (quality: NetworkQuality) => void, private onChange: (quality: NetworkQuality) => void) {}
+
+  /**
+   * Sets the thresholds and the throttling interval.
+   * @param options - (Optional) The options, merged with the defaults.
+   */
+  configure(options: NetworkQualityOptions = {}) {
+    this.options = { ...DEFAULT_NETWORK_QUALITY_OPTIONS, ...options };
+  }
+
+  /**
+   * Records a network quality report. Values without information keep the previous quality of their direction.
+   * @param downlink - The downlink quality on the Agora `QualityType` scale.
+   * @param uplink - The uplink quality on the Agora `QualityType` scale.
+   */
+  report(downlink: number, uplink: number) {
+    const down = this.isKnown(downlink) ? downlink : this.current?.downlink;
+    const up = this.isKnown(uplink) ? uplink : this.current?.uplink;
+    if (down === undefined && up === undefined) {
+      return;
+    }
+    const worst = Math.max(down ?? MIN_QUALITY, up ?? MIN_QUALITY);
+    const wasLow = this.current?.isLow ?? false;
+    const isLow = wasLow ? worst > this.options.recoverAt : worst >= this.options.lowAt;
+    const next: NetworkQuality = { downlink: down ?? 0, uplink: up ?? 0, isLow };
+    if (!this.isSame(next, this.current)) {
+      this.current = next;
+      this.onChange(next);
+    }
+    this.schedule(isLow !== wasLow);
+  }
+
+  /**
+   * Gets the latest network quality.
+   * @returns The network quality, or `undefined` if nothing was reported yet.
+   */
+  get() {
+    return this.current;
+  }
+
+  /**
+   * Forgets the reported quality and cancels the pending update.
+   */
+  reset() {
+    this.clearTimer();
+    this.current = undefined;
+    this.lastSent = undefined;
+    this.lastSentAt = 0;
+  }
+
+  /**
+   * Sends the current quality now if it changed and the interval elapsed, or schedules it for the end of the interval.
+   * @param urgent - Sends right away, ignoring the interval.
+   */
+  private schedule(urgent: boolean) {
+    if (this.isSame(this.current, this.lastSent)) {
+      this.clearTimer();
+      return;
+    }
+    const wait = urgent ? 0 : this.lastSentAt + this.options.interval - Date.now();
+    if (wait <= 0) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, wait);
+    }
+  }
+
+  /**
+   * Sends the current quality unless it was already sent.
+   */
+  private flush() {
+    this.clearTimer();
+    if (!this.current || this.isSame(this.current, this.lastSent)) {
+      return;
+    }
+    this.lastSent = this.current;
+    this.lastSentAt = Date.now();
+    this.publish(this.current);
+  }
+
+  /**
+   * Cancels the scheduled update.
+   */
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Checks whether a quality value carries information.
+   * @param quality - The quality on the Agora `QualityType` scale.
+   * @returns True if the quality is between excellent and down.
+   */
+  private isKnown(quality: number) {
+    return quality >= MIN_QUALITY && quality <= MAX_QUALITY;
+  }
+
+  /**
+   * Compares two network qualities.
+   * @param a - The first quality.
+   * @param b - The second quality.
+   * @returns True if both are set and equal.
+   */
+  private isSame(a?: NetworkQuality, b?: NetworkQuality) {
+    return !!a && !!b && a.downlink === b.downlink && a.uplink === b.uplink && a.isLow === b.isLow;
+  }
+}
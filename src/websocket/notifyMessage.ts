@@ -0,0 +1,213 @@
+import { IMessage } from '@stomp/stompjs';
+import { ContractAction } from '../api/apiService';
+import type { ContractConfirmationDetail } from '../contracts';
+import { ValidationIssue } from '../types';
+import { Emitter } from '../utils/emitter';
+import { Schema, validate } from '../validation';
+import { array, number, object, optional, string } from '../validation/schema';
+
+/**
+ * Type of `detail` for every action.
+ * Only the details the SDK sends itself are typed and validated; the others are `unknown`: narrow them before use.
+ */
+export type NotifyDetailMap = {
+  [A in ContractAction]: A extends ContractAction.CUSTOMER_CONFIRM ? ContractConfirmationDetail : unknown;
+};
+
+type NotifyMessageOf<A extends ContractAction> = {
+  action: A;
+  /** Details of the action, as sent by the server. */
+  detail?: NotifyDetailMap[A];
+  sessionKey?: string;
+  timestamp?: number;
+  /** The whole message body, including fields not listed above. */
+  body: Record<string, unknown>;
+};
+
+type NotifyMessages = { [A in ContractAction]: NotifyMessageOf<A> }[ContractAction];
+
+/**
+ * Notification sent by the server on the notify topics.
+ * A union discriminated by `action`: checking the action narrows `detail`.
+ */
+export type NotifyMessage<A extends ContractAction = ContractAction> = Extract<NotifyMessages, { action: A }>;
+
+export type UnknownNotifyMessage = {
+  /** `unknown_action` when the action is not a `ContractAction`, `invalid` when the frame is not a notify message. */
+  reason: 'unknown_action' | 'invalid';
+  action?: string;
+  /** The parsed body, or the raw frame body if it is not JSON. */
+  body: unknown;
+  issues: ValidationIssue[];
+};
+
+export type NotifyParseResult =
+  | { ok: true; message: NotifyMessage }
+  | { ok: false; unknown: UnknownNotifyMessage };
+
+type NotifyEvents = Record<ContractAction, [NotifyMessage]>;
+
+const NotifyMessageSchema: Schema = object({
+  action: string(),
+  sessionKey: optional(string()),
+  timestamp: optional(number()),
+});
+
+const ContractConfirmationDetailSchema: Schema = object({
+  contracts: array(
+    object({
+      name: string(),
+      url: string(),
+      fileType: string(),
+      hash: string(),
+      size: number(),
+    }),
+  ),
+});
+
+const contractActions = new Set<string>(Object.values(ContractAction));
+
+/**
+ * Checks whether a value is a JSON object.
+ * @param value - The value to check.
+ * @returns True if the value is an object, and not null or an array.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a known contract action.
+ * @param value - The value to check.
+ * @returns True if the value is a `ContractAction`.
+ */
+function isContractAction(value: unknown): value is ContractAction {
+  return typeof value === 'string' && contractActions.has(value);
+}
+
+/**
+ * Checks whether a value is a valid `CUSTOMER_CONFIRM` detail, and collects the issues if not.
+ * @param value - The detail to check.
+ * @param issues - The list to append the issues to.
+ * @returns True if the value is a `ContractConfirmationDetail`.
+ */
+function isContractConfirmationDetail(value: unknown, issues: ValidationIssue[]): value is ContractConfirmationDetail {
+  issues.push(...validate(ContractConfirmationDetailSchema, value, 'detail'));
+  return issues.length === 0;
+}
+
+/**
+ * Checks whether a message has a given action.
+ * @param message - The message to check.
+ * @param action - The expected action.
+ * @returns True if the message has this action.
+ */
+function hasAction<A extends ContractAction>(message: NotifyMessage, action: A): message is NotifyMessage<A> {
+  return message.action === action;
+}
+
+/**
+ * Parses and validates a frame received on a notify topic.
+ * The action is read from `action`, or from `actionHistory` as sent by `saveLog`.
+ * @param frame - The STOMP message, or its body.
+ * @returns The typed message, or the unknown message if the action is not recognized or the frame is invalid.
+ */
+export function parseNotifyMessage(frame: IMessage | string): NotifyParseResult {
+  const raw = typeof frame === 'string' ? frame : frame.body;
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return { ok: false, unknown: { reason: 'invalid', body: raw, issues: [{ path: '', expected: 'JSON', received: 'string' }] } };
+  }
+  if (!isRecord(body)) {
+    return { ok: false, unknown: { reason: 'invalid', body, issues: validate(NotifyMessageSchema, body) } };
+  }
+  const fields: Record<string, unknown> = { action: body.actionHistory, ...body };
+  const { action, detail, sessionKey, timestamp } = fields;
+  const issues = validate(NotifyMessageSchema, fields);
+  if (issues.length > 0) {
+    return { ok: false, unknown: { reason: 'invalid', action: typeof action === 'string' ? action : undefined, body, issues } };
+  }
+  if (!isContractAction(action)) {
+    return { ok: false, unknown: { reason: 'unknown_action', action: String(action), body, issues } };
+  }
+  const common = {
+    sessionKey: typeof sessionKey === 'string' ? sessionKey : undefined,
+    timestamp: typeof timestamp === 'number' ? timestamp : undefined,
+    body,
+  };
+  if (action !== ContractAction.CUSTOMER_CONFIRM) {
+    return { ok: true, message: { action, detail, ...common } };
+  }
+  if (detail !== undefined && detail !== null && !isContractConfirmationDetail(detail, issues)) {
+    return { ok: false, unknown: { reason: 'invalid', action, body, issues } };
+  }
+  return { ok: true, message: { action, detail: detail ?? undefined, ...common } };
+}
+
+/**
+ * NotifyEmitter dispatches the frames of the notify topics to typed handlers, by action.
+ * Frames with an unknown action or an invalid body go to the `onUnknown` handlers instead of being dropped.
+ */
+class NotifyEmitter {
+  private emitter = new Emitter<NotifyEvents>();
+  private unknownEmitter = new Emitter<{ unknown: [UnknownNotifyMessage] }>();
+
+  /**
+   * Registers a handler for an action.
+   * @param action - The action to handle.
+   * @param handler - The handler to call with every message of this action.
+   * @returns A function that unregisters the handler.
+   */
+  on<A extends ContractAction>(action: A, handler: (message: NotifyMessage<A>) => void) {
+    return this.emitter.on(action, (message) => {
+      if (hasAction(message, action)) {
+        handler(message);
+      }
+    });
+  }
+
+  /**
+   * Registers a handler for the frames that are not a known notify message.
+   * @param handler - The handler to call with every unknown or invalid message.
+   * @returns A function that unregisters the handler.
+   */
+  onUnknown(handler: (message: UnknownNotifyMessage) => void) {
+    return this.unknownEmitter.on('unknown', handler);
+  }
+
+  /**
+   * Parses a frame and calls the handlers of its action. Pass it as the notify topic callback.
+   * @param frame - The STOMP message.
+   */
+  handle = (frame: IMessage) => {
+    const result = parseNotifyMessage(frame);
+    if (!result.ok) {
+      if (!this.unknownEmitter.emit('unknown', result.unknown)) {
+        console.warn('Unhandled notify message:', result.unknown.reason, result.unknown.action);
+      }
+      return;
+    }
+    this.emitter.emit(result.message.action, result.message);
+  };
+
+  /**
+   * Unregisters every handler.
+   */
+  clear() {
+    this.emitter.clear();
+    this.unknownEmitter.clear();
+  }
+}
+
+/**
+ * Creates and returns a new instance of NotifyEmitter.
+ * @returns A new instance of NotifyEmitter.
+ */
+export function createNotifyEmitter() {
+  return new NotifyEmitter();
+}
+
+// Export for external use
+export type { NotifyEmitter };
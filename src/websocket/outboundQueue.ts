@@ -0,0 +1,174 @@
+import { Client } from '@stomp/stompjs';
+import { VpageAbortError, VpageError, VpageTimeoutError } from '../errors';
+import { MessageHeaders, SendOptions } from '../types';
+import { generateId } from '../utils/id';
+
+type Receipt = {
+  id: string;
+  timeout: number;
+  resolve: () => void;
+  reject: (error: VpageError) => void;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+type OutboundMessage = {
+  destination: string;
+  headers: MessageHeaders;
+  /** The body, or a function building it when the message is published. */
+  body?: any;
+  expiresAt?: number;
+  receipt?: Receipt;
+};
+
+const DEFAULT_SEND_TTL = 30000;
+
+/**
+ * OutboundQueue buffers the messages sent while the STOMP client is disconnected and publishes them in order once connected.
+ * Messages sent with a receipt stay pending until the broker acknowledges them, and are sent again if the connection drops first.
+ * Headers and bodies given as functions are built on every publish, so a replayed message carries the current socket ID and token.
+ */
+export class OutboundQueue {
+  private queue: OutboundMessage[] = [];
+  private pending: OutboundMessage[] = [];
+
+  /**
+   * Creates an instance of OutboundQueue.
+   * @param getClient - Returns the current STOMP client.
+   * @param maxSize - (Optional) Maximum number of buffered messages. The oldest are dropped beyond it. Default is 100.
+   */
+  constructor(private getClient: () => Client | undefined, private maxSize = 100) {}
+
+  /**
+   * Queues a message and publishes it right away when connected.
+   * @param destination - The destination to send the message to.
+   * @param headers - Headers to include with the message, or a function building them.
+   * @param body - (Optional) The body of the message, or a function building it.
+   * @param options - (Optional) The time to live of the message.
+   */
+  send(destination: string, headers: MessageHeaders, body?: any, options: SendOptions = {}) {
+    this.enqueue({ destination, headers, body, expiresAt: this.getExpiry(options) });
+  }
+
+  /**
+   * Queues a message with a receipt and publishes it right away when connected.
+   * @param destination - The destination to send the message to.
+   * @param headers - Headers to include with the message, or a function building them.
+   * @param body - (Optional) The body of the message, or a function building it.
+   * @param options - (Optional) The time to live of the message and the receipt timeout.
+   * @returns A promise that resolves when the broker acknowledges the message, or rejects with a `VpageTimeoutError`
+   * if it expires or is not acknowledged in time, or a `VpageAbortError` if the queue is cleared.
+   */
+  sendWithReceipt(destination: string, headers: MessageHeaders, body?: any, options: SendOptions = {}) {
+    return new Promise<void>((resolve, reject) => {
+      const receipt: Receipt = { id: generateId(), timeout: options.receiptTimeout ?? 10000, resolve, reject };
+      this.enqueue({ destination, headers, body, expiresAt: this.getExpiry(options), receipt });
+    });
+  }
+
+  /**
+   * Publishes the buffered messages in order while connected, dropping the expired ones.
+   */
+  flush() {
+    const client = this.getClient();
+    while (client?.connected && this.queue.length > 0) {
+      const message = this.queue.shift()!;
+      if (message.expiresAt !== undefined && message.expiresAt <= Date.now()) {
+        message.receipt?.reject(new VpageTimeoutError(`Message to ${message.destination} expired before it was sent`));
+        continue;
+      }
+      try {
+        this.publish(client, message);
+      } catch (error) {
+        console.warn(`Error sending message to ${message.destination}, retrying on reconnect:`, error);
+        this.queue.unshift(message);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Moves the messages still waiting for their receipt back to the front of the queue, after the connection dropped.
+   */
+  requeuePending() {
+    this.pending.forEach((message) => {
+      if (message.receipt?.timer) {
+        clearTimeout(message.receipt.timer);
+        message.receipt.timer = undefined;
+      }
+    });
+    this.queue.unshift(...this.pending);
+    this.pending = [];
+  }
+
+  /**
+   * Drops every buffered and pending message, rejecting the receipts.
+   */
+  clear() {
+    [...this.pending, ...this.queue].forEach((message) => {
+      if (message.receipt?.timer) {
+        clearTimeout(message.receipt.timer);
+      }
+      message.receipt?.reject(new VpageAbortError(`Message to ${message.destination} was not sent`));
+    });
+    this.queue = [];
+    this.pending = [];
+  }
+
+  /**
+   * Gets the number of messages waiting to be sent or acknowledged.
+   * @returns The number of messages.
+   */
+  size() {
+    return this.queue.length + this.pending.length;
+  }
+
+  /**
+   * Appends a message, dropping the oldest one when the queue is full, then flushes.
+   * @param message - The message to queue.
+   */
+  private enqueue(message: OutboundMessage) {
+    this.queue.push(message);
+    if (this.queue.length > this.maxSize) {
+      const dropped = this.queue.shift()!;
+      console.warn(`Outbound queue is full, dropping message to ${dropped.destination}.`);
+      dropped.receipt?.reject(new VpageAbortError(`Message to ${dropped.destination} was dropped`));
+    }
+    this.flush();
+  }
+
+  /**
+   * Publishes a message, watching for its receipt if it has one.
+   * @param client - The connected STOMP client.
+   * @param message - The message to publish.
+   */
+  private publish(client: Client, message: OutboundMessage) {
+    const { receipt } = message;
+    const headers = typeof message.headers === 'function' ? message.headers() : message.headers;
+    const body = typeof message.body === 'function' ? message.body() : message.body;
+    if (!receipt) {
+      client.publish({ destination: message.destination, headers, body });
+      return;
+    }
+    client.watchForReceipt(receipt.id, () => {
+      clearTimeout(receipt.timer);
+      this.pending = this.pending.filter((entry) => entry !== message);
+      receipt.resolve();
+    });
+    client.publish({ destination: message.destination, headers: { ...headers, receipt: receipt.id }, body });
+    this.pending.push(message);
+    receipt.timer = setTimeout(() => {
+      this.pending = this.pending.filter((entry) => entry !== message);
+      receipt.reject(new VpageTimeoutError(`No receipt for message to ${message.destination} after ${receipt.timeout}ms`));
+    }, receipt.timeout);
+  }
+
+  /**
+   * Computes the expiry of a message from its time to live.
+   * @param options - The send options.
+   * @returns The expiry in milliseconds, or `undefined` if the message never expires.
+   */
+  private getExpiry(options: SendOptions) {
+    const ttl = options.ttl ?? DEFAULT_SEND_TTL;
+    return Number.isFinite(ttl) ? Date.now() + ttl : undefined;
+  }
+}
@@ -1,144 +1,505 @@
-import { ActivationState, Client, IFrame, IMessage, StompHeaders, StompSubscription } from '@stomp/stompjs';
-import SockJS from 'sockjs-client';
-import { environment } from '../utils/environment';
+import { ActivationState, Client, IFrame, IMessage, IStompSocket, ReconnectionTimeMode, StompSubscription } from '@stomp/stompjs';
+import { VpageEnvironment, environment } from '../utils/environment';
 import { Platform } from 'react-native';
+import { VpageConfigError } from '../errors';
+import { MessageHeaders, ReconnectPolicy, SendOptions, TokenProvider } from '../types';
+import { Emitter } from '../utils/emitter';
+import { generateId } from '../utils/id';
+import { NetworkQuality, NetworkQualityMonitor, NetworkQualityOptions } from './networkQuality';
+import { createNotifyEmitter } from './notifyMessage';
+import { OutboundQueue } from './outboundQueue';
+import { SocketTransport, createDefaultTransport } from './transport';
+
+export enum ConnectionState {
+  IDLE = 'IDLE',
+  CONNECTING = 'CONNECTING',
+  CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
+  /** Reconnection gave up after the maximum number of attempts. Call `connect` to try again. */
+  FAILED = 'FAILED',
+  DISCONNECTED = 'DISCONNECTED',
+}
+
+export type SocketOptions = {
+  /** Opens the underlying socket. Default is a SockJS transport when sockjs-client is installed, native WebSockets otherwise. */
+  transport?: SocketTransport;
+  /** Reconnection backoff, or `false` to never reconnect. */
+  reconnect?: ReconnectPolicy | false;
+  /** Default options of `startHealthCheck`. */
+  heartbeat?: HeartbeatOptions;
+  /** Thresholds and throttling of the network status updates sent by `reportNetworkQuality`. */
+  networkQuality?: NetworkQualityOptions;
+};
+
+export type HeartbeatOptions = {
+  /** Interval between health checks in milliseconds. Default is 3000. */
+  interval?: number;
+  /** Number of missed replies in a row before `connectionDegraded` is emitted. Default is 2. */
+  degradedAfter?: number;
+  /** Number of missed replies in a row before `connectionLost` is emitted and the socket is reopened. Default is 5. */
+  lostAfter?: number;
+};
+
+export type HeartbeatStats = {
+  /** Round-trip time of the last health check in milliseconds. */
+  latency?: number;
+  /** Average round-trip time of the last 10 health checks in milliseconds. */
+  averageLatency?: number;
+  /** Number of health checks in a row without a reply. */
+  missed: number;
+  lastReplyAt?: number;
+};
+
+export type SocketEvents = {
+  /** The connection state changed. Called with the new state, the previous state and the number of reconnection attempts. */
+  stateChange: [state: ConnectionState, previous: ConnectionState, attempt: number];
+  /** A health check reply was received. */
+  heartbeat: [stats: HeartbeatStats];
+  /** `degradedAfter` health checks in a row were not answered. */
+  connectionDegraded: [stats: HeartbeatStats];
+  /** `lostAfter` health checks in a row were not answered. The socket is reopened. */
+  connectionLost: [stats: HeartbeatStats];
+  /** The network quality reported by `reportNetworkQuality` changed. */
+  networkQualityChanged: [quality: NetworkQuality];
+};
+
+const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+  interval: 3000,
+  degradedAfter: 2,
+  lostAfter: 5,
+};
+
+const LATENCY_SAMPLES = 10;
+
+/** Network status updates older than this are stale and dropped instead of being sent on reconnect. */
+const NETWORK_STATUS_TTL = 5000;
+
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: 10,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+type MessageHandler = (message: IMessage) => void;
+
+type TopicEntry = {
+  /** Resolves the topic, so topics built from the socket ID follow it across reconnects. */
+  resolveTopic: () => string;
+  handlers: Map<MessageHandler, string>;
+  /** The topic and subscription on the current connection, if subscribed. */
+  topic?: string;
+  subscription?: StompSubscription;
+};
+
+export type SubscriptionHandle = {
+  /** Unique ID of the handler registration. */
+  id: string;
+  /** Topic of the subscription, with a `{sessionKey}` or `{socketId}` placeholder for the session topics. */
+  topic: string;
+  /** Removes the handler. The topic is unsubscribed once its last handler is removed. */
+  unsubscribe(): void;
+};
+
+export type SubscriptionInfo = {
+  /** Topic of the subscription, with a `{sessionKey}` or `{socketId}` placeholder for the session topics. */
+  topic: string;
+  /** Topic subscribed to on the current connection, or `undefined` while disconnected. */
+  activeTopic?: string;
+  /** STOMP subscription ID on the current connection. */
+  subscriptionId?: string;
+  /** IDs of the registered handlers. */
+  handlers: string[];
+};
 
 class SocketService {
-  private socket?: any;
+  private socket?: IStompSocket;
   private sessionKey: string = '';
+  private socketPath: string = environment.SOCKET_PATH;
   protected token: string = '';
+  private tokenProvider?: TokenProvider;
+  private deviceInfo: Record<string, any> = {};
   protected socketId: string = '';
   private client?: Client;
   public timerInterval: NodeJS.Timeout | null = null;
+  private state = ConnectionState.IDLE;
+  private reconnectPolicy: Required<ReconnectPolicy> = DEFAULT_RECONNECT_POLICY;
+  private reconnectAttempts = 0;
+  private subscriptions = new Map<string, TopicEntry>();
+  private nextHandlerId = 1;
+  private events = new Emitter<SocketEvents>();
+  private outbox = new OutboundQueue(() => this.client);
+  private networkQuality = new NetworkQualityMonitor(
+    (quality) => this.sendNetworkStatus(quality.downlink, quality.uplink, quality.isLow ? 'true' : null),
+    (quality) => this.events.emit('networkQualityChanged', quality)
+  );
+  private heartbeatDefaults: Required<HeartbeatOptions> = DEFAULT_HEARTBEAT_OPTIONS;
+  private heartbeatOptions: Required<HeartbeatOptions> = DEFAULT_HEARTBEAT_OPTIONS;
+  /** Send time of the health checks waiting for a reply, by ping ID. */
+  private pendingPings = new Map<string, { timestamp: string; sentAt: number }>();
+  private latencies: number[] = [];
+  private missedBeats = 0;
+  private lastReplyAt?: number;
+  /** Typed handlers of the notify topics, used when they are subscribed to without a callback. */
+  public readonly notifications = createNotifyEmitter();
 
   /**
    * Initializes the STOMP client with the given WebSocket server URL and configuration.
-   * @param serverURL - The base URL of the WebSocket server.
+   * @param serverURL - The base URL of the WebSocket server, or an environment providing its `socketURL` and `socketPath`.
    * @param sessionKey - The session key for the user.
-   * @param token - The authentication token.
+   * @param token - The authentication token, or a token provider called before every (re)connect.
+   * Pass the same provider as `APIClientOptions.tokenProvider` so REST and STOMP always use the same token.
    * @param debugCallback - (Optional) Callback for debugging messages.
+   * @param options - (Optional) Socket options, e.g. the reconnection backoff or the transport.
    */
   initialize(
-    serverURL: string,
+    serverURL: string | VpageEnvironment,
     sessionKey: string,
-    token: string,
-    debugCallback = (message: string) => {}
+    token: string | TokenProvider,
+    debugCallback = (message: string) => {},
+    options: SocketOptions = {}
   ): void {
     if (this.client) {
       console.error('STOMP client is already initialized.');
       return;
     }
-    this.socket = new SockJS(serverURL + environment.SOCKET_PATH, null, { timeout: 30000 });
+    if (typeof serverURL === 'string') {
+      this.socketPath = environment.SOCKET_PATH;
+    } else {
+      this.socketPath = serverURL.socketPath;
+      serverURL = serverURL.socketURL;
+    }
+    const url = serverURL + this.socketPath;
+    const transport = options.transport || createDefaultTransport();
     this.sessionKey = sessionKey;
-    this.token = token;
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    this.heartbeatDefaults = { ...DEFAULT_HEARTBEAT_OPTIONS, ...options.heartbeat };
+    this.networkQuality.configure(options.networkQuality);
+    if (typeof token === 'function') {
+      this.tokenProvider = token;
+    } else {
+      this.token = token;
+    }
     this.client = new Client({
-      webSocketFactory: () => this.socket,
+      // A closed socket cannot be reopened, create a new one with a new socket ID for every (re)connect
+      webSocketFactory: () => {
+        this.socketId = generateId().replace(/-/g, '').slice(0, 8);
+        this.socket = transport.connect(url, this.socketId);
+        return this.socket;
+      },
       brokerURL: undefined,
       appendMissingNULLonIncoming: true,
-      reconnectDelay: 5000,
+      reconnectDelay: options.reconnect === false ? 0 : this.reconnectPolicy.baseDelay,
+      reconnectTimeMode: ReconnectionTimeMode.EXPONENTIAL,
+      maxReconnectDelay: this.reconnectPolicy.maxDelay,
       heartbeatIncoming: 5000,
       heartbeatOutgoing: 5000,
       debug: debugCallback,
     });
+    this.client.beforeConnect = () => this.updateConnectHeaders();
+    this.client.onConnect = () => this.handleConnect();
+    this.client.onWebSocketClose = () => this.handleWebSocketClose();
+  }
+
+  /**
+   * Registers a listener for a connection event.
+   * @param event - The event to listen to, e.g. `stateChange`.
+   * @param listener - The listener to call with the event arguments.
+   * @returns A function that unregisters the listener.
+   */
+  on<K extends keyof SocketEvents>(event: K, listener: (...args: SocketEvents[K]) => void) {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Gets the current connection state.
+   * @returns The connection state.
+   */
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Updates the connection state and notifies the `stateChange` listeners.
+   * @param state - The new connection state.
+   */
+  private setState(state: ConnectionState) {
+    if (state === this.state) {
+      return;
+    }
+    const previous = this.state;
+    this.state = state;
+    this.events.emit('stateChange', state, previous, this.reconnectAttempts);
+  }
+
+  /**
+   * Replays every registered subscription against the new socket ID once connected.
+   */
+  private handleConnect() {
+    this.reconnectAttempts = 0;
+    this.pendingPings.clear();
+    this.missedBeats = 0;
+    this.subscriptions.forEach((entry) => this.subscribeTopic(entry));
+    this.outbox.flush();
+    this.setState(ConnectionState.CONNECTED);
+  }
+
+  /**
+   * Tracks reconnection attempts when the socket closes, giving up after the maximum number of attempts.
+   */
+  private handleWebSocketClose() {
+    this.subscriptions.forEach((entry) => {
+      entry.topic = undefined;
+      entry.subscription = undefined;
+    });
+    this.outbox.requeuePending();
+    if (!this.client?.active) {
+      this.setState(ConnectionState.DISCONNECTED);
+      return;
+    }
+    if (this.client.reconnectDelay === 0) {
+      this.setState(ConnectionState.DISCONNECTED);
+      this.client.deactivate();
+      return;
+    }
+    this.reconnectAttempts++;
+    const { maxAttempts } = this.reconnectPolicy;
+    if (maxAttempts > 0 && this.reconnectAttempts > maxAttempts) {
+      console.warn(`STOMP reconnection failed after ${maxAttempts} attempts.`);
+      this.setState(ConnectionState.FAILED);
+      this.client.deactivate();
+      return;
+    }
+    this.setState(ConnectionState.RECONNECTING);
   }
 
   /**
-   * Sets the socket ID based on the WebSocket URL.
+   * Resolves the latest token and sets the STOMP connect headers.
+   * Runs before every (re)connect, so a reconnect never reuses an expired token.
    */
-  private setSocketId(): void {
-    const url = this.socket?._transport?.url?.toString();
-    if (url && url.includes(environment.SOCKET_PATH)) {
-      const parts = url.split(environment.SOCKET_PATH);
-      if (parts.length > 1) {
-        const pathAfterSocketPath = parts[1];
-        const segments = pathAfterSocketPath.split('/');
-        this.socketId = segments[2] || '';
-      } else {
-        console.warn('Unexpected path after socket path:', parts);
+  private async updateConnectHeaders(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+    if (this.tokenProvider) {
+      try {
+        this.token = (await this.tokenProvider()) || '';
+      } catch (error) {
+        console.error('Error resolving socket token:', error);
       }
-    } else {
-      console.warn('Unexpected url:', url);
     }
+    this.client.connectHeaders = {
+      'Access-Control-Allow-Origin': '*',
+      token: this.token,
+      deviceInfo: JSON.stringify(this.deviceInfo),
+    };
+  }
+
+  /**
+   * Gets the socket ID of the current connection. It is generated by the client for every (re)connect
+   * and passed to the transport as session ID, so the server addresses the client on `/user/{socketId}/...`.
+   * @returns The socket ID, or an empty string before the first connection.
+   */
+  getSocketId(): string {
+    return this.socketId;
   }
 
   /**
    * Subscribes to a specific topic on the WebSocket server.
+   * The subscription is replayed on every reconnect until its handle is unsubscribed.
    * @param topic - The topic to subscribe to (e.g., `/topic/example`).
    * @param callback - A callback function to handle incoming messages for the topic.
-   * @returns The subscription object if the client is initialized, otherwise `undefined`.
+   * @returns The subscription handle if the client is initialized, otherwise `undefined`.
    */
-  subscribe(topic: string, callback: (message: IMessage) => void): StompSubscription | undefined {
+  subscribe(topic: string, callback: MessageHandler): SubscriptionHandle | undefined {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    return this.client.subscribe(topic, callback);
+    return this.register(topic, () => topic, callback);
+  }
+
+  /**
+   * Gets the registered subscriptions.
+   * @returns The topic, current STOMP subscription and handlers of every registered subscription.
+   */
+  getSubscriptions(): SubscriptionInfo[] {
+    return Array.from(this.subscriptions.entries()).map(([topic, entry]) => ({
+      topic,
+      activeTopic: entry.topic,
+      subscriptionId: entry.subscription?.id,
+      handlers: Array.from(entry.handlers.values()),
+    }));
+  }
+
+  /**
+   * Registers a handler on a topic. Every topic has one STOMP subscription, shared by its handlers,
+   * which is established right away when connected and replayed on every reconnect.
+   * Registering the same handler twice on a topic returns the existing registration.
+   * @param key - The key of the topic, e.g. the topic with a `{socketId}` placeholder.
+   * @param resolveTopic - Resolves the topic on the current connection.
+   * @param handler - A callback function to handle incoming messages for the topic.
+   * @returns The subscription handle.
+   */
+  private register(key: string, resolveTopic: () => string, handler: MessageHandler): SubscriptionHandle {
+    let entry = this.subscriptions.get(key);
+    if (!entry) {
+      entry = { resolveTopic, handlers: new Map() };
+      this.subscriptions.set(key, entry);
+    }
+    let id = entry.handlers.get(handler);
+    if (!id) {
+      id = `handler-${this.nextHandlerId++}`;
+      entry.handlers.set(handler, id);
+    }
+    this.subscribeTopic(entry);
+    return {
+      id,
+      topic: key,
+      unsubscribe: () => this.removeHandler(key, handler),
+    };
+  }
+
+  /**
+   * Removes a handler, unsubscribing from the topic once its last handler is removed.
+   * @param key - The key of the topic.
+   * @param handler - The handler to remove.
+   */
+  private removeHandler(key: string, handler: MessageHandler) {
+    const entry = this.subscriptions.get(key);
+    if (!entry || !entry.handlers.delete(handler)) {
+      return;
+    }
+    if (entry.handlers.size === 0) {
+      this.subscriptions.delete(key);
+      this.unsubscribeTopic(entry);
+    }
+  }
+
+  /**
+   * Subscribes to a topic on the current connection, unless it is already subscribed to the same topic.
+   * Messages are dispatched to every handler of the topic.
+   * @param entry - The registered topic.
+   */
+  private subscribeTopic(entry: TopicEntry) {
+    if (!this.client?.connected) {
+      return;
+    }
+    const topic = entry.resolveTopic();
+    if (entry.subscription && entry.topic === topic) {
+      return;
+    }
+    this.unsubscribeTopic(entry);
+    entry.topic = topic;
+    entry.subscription = this.client.subscribe(topic, (message) => {
+      Array.from(entry.handlers.keys()).forEach((handler) => {
+        try {
+          handler(message);
+        } catch (error) {
+          console.error(`Error handling message on ${topic}:`, error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Unsubscribes from a topic on the current connection, keeping its handlers registered.
+   * @param entry - The registered topic.
+   */
+  private unsubscribeTopic(entry: TopicEntry) {
+    if (entry.subscription && this.client?.connected) {
+      entry.subscription.unsubscribe();
+    }
+    entry.topic = undefined;
+    entry.subscription = undefined;
   }
 
   /**
    * Subscribes to the session notification topic.
-   * @param callback - A callback function to handle incoming messages for the session notification topic.
-   * @returns The subscription object if the client is initialized, otherwise `undefined`.
+   * @param callback - (Optional) A callback function to handle incoming messages for the session notification topic.
+   * Default is to parse the messages and dispatch them to the `notifications` handlers.
+   * @returns The subscription handle if the client is initialized, otherwise `undefined`.
    */
-  subscribeSessionNotifyTopic(callback: (msg: IMessage) => void) {
+  subscribeSessionNotifyTopic(callback: (msg: IMessage) => void = this.notifications.handle) {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    return this.subscribe(`/user/${this.sessionKey}/notify`, callback);
+    return this.register('/user/{sessionKey}/notify', () => `/user/${this.sessionKey}/notify`, callback);
   }
 
   /**
    * Subscribes to the socket notification topic.
-   * @param callback - A callback function to handle incoming messages for the socket notification topic.
-   * @returns The subscription object if the client is initialized, otherwise `undefined`.
+   * @param callback - (Optional) A callback function to handle incoming messages for the socket notification topic.
+   * Default is to parse the messages and dispatch them to the `notifications` handlers.
+   * @returns The subscription handle if the client is initialized, otherwise `undefined`.
    */
-  subscribeSocketNotifyTopic(callback: (msg: IMessage) => void) {
+  subscribeSocketNotifyTopic(callback: (msg: IMessage) => void = this.notifications.handle) {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    return this.subscribe(`/user/${this.socketId}/notify`, callback);
+    return this.register('/user/{socketId}/notify', () => `/user/${this.socketId}/notify`, callback);
   }
 
   /**
-   * Subscribes to the socket health topic.
-   * @param callback - A callback function to handle incoming messages for the socket health topic.
-   * @returns The subscription object if the client is initialized, otherwise `undefined`.
+   * Subscribes to the socket health topic. Replies are also used to measure the health check latency.
+   * @param callback - (Optional) A callback function to handle incoming messages for the socket health topic.
+   * @returns The subscription handle if the client is initialized, otherwise `undefined`.
    */
-  subscribeSocketHealthTopic(callback: (msg: IMessage) => void) {
+  subscribeSocketHealthTopic(callback: (msg: IMessage) => void = this.handleHealthReply) {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    return this.subscribe(`/user/${this.socketId}/health`, callback);
+    const resolveTopic = () => `/user/${this.socketId}/health`;
+    this.register('/user/{socketId}/health', resolveTopic, this.handleHealthReply);
+    return this.register('/user/{socketId}/health', resolveTopic, callback);
   }
 
   /**
    * Subscribes to the application live topic.
    * @param callback - A callback function to handle incoming messages for the application live topic.
-   * @returns The subscription object if the client is initialized, otherwise `undefined`.
+   * @returns The subscription handle if the client is initialized, otherwise `undefined`.
    */
   subscribeAppLiveTopic(callback: (msg: IMessage) => void) {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    return this.subscribe(`/app/live`, callback);
+    return this.register('/app/live', () => '/app/live', callback);
   }
 
   /**
    * Sends a message to a specific destination using the STOMP client.
+   * Messages sent while disconnected are buffered and sent in order on reconnect, unless their time to live runs out first.
    * @param destination - The destination to send the message to (e.g., a topic or queue).
-   * @param headers - (Optional) Headers to include with the message.
-   * @param body - (Optional) The body of the message to send.
+   * @param headers - (Optional) Headers to include with the message, or a function building them when the message is published.
+   * @param body - (Optional) The body of the message to send, or a function building it when the message is published.
+   * @param options - (Optional) Send options, e.g. a time to live dropping the message if it cannot be sent in time.
    */
-  send(destination: string, headers?: Record<string, string>, body?: any): void {
+  send(destination: string, headers: MessageHeaders = {}, body?: any, options?: SendOptions): void {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    this.client.publish({ destination, headers, body });
+    this.outbox.send(destination, headers, body, options);
+  }
+
+  /**
+   * Sends a message with a STOMP receipt and waits for the broker to acknowledge it.
+   * Messages sent while disconnected, or not acknowledged before the connection dropped, are sent again on reconnect.
+   * @param destination - The destination to send the message to.
+   * @param headers - (Optional) Headers to include with the message, or a function building them when the message is published.
+   * @param body - (Optional) The body of the message to send, or a function building it when the message is published.
+   * @param options - (Optional) Send options, e.g. a time to live or the receipt timeout.
+   * @returns A promise that resolves when the broker acknowledges the message, or rejects with a `VpageTimeoutError`
+   * if it expires or is not acknowledged in time, or a `VpageAbortError` if the client is cleaned up first.
+   */
+  async sendWithReceipt(destination: string, headers: MessageHeaders = {}, body?: any, options?: SendOptions): Promise<void> {
+    if (!this.client) {
+      throw new VpageConfigError('STOMP client is not initialized.');
+    }
+    return this.outbox.sendWithReceipt(destination, headers, body, options);
   }
 
   /**
@@ -153,40 +514,116 @@ class SocketService {
   }
 
   /**
-   * Starts the interval to send health checks.
-   * @param socketService - The instance of the SocketService.
+   * Starts the interval to send health checks, subscribing to the socket health topic to measure their latency.
+   * Emits `connectionDegraded` and `connectionLost` when replies are missed.
+   * @param options - (Optional) Heartbeat options. Default is the `heartbeat` option of `initialize`.
    */
-  startHealthCheck(socketService: SocketService): void {
-    const timeSleep = 3000;
-    this.clearHealthCheck();
-    if (!socketService) {
-      console.warn('startHealthCheck: Socket service instance is null.');
+  startHealthCheck(options: HeartbeatOptions = {}): void {
+    if (!this.client) {
+      console.error('STOMP client is not initialized.');
       return;
     }
-    this.timerInterval = setInterval(() => this.validateToken(socketService), timeSleep);
+    this.clearHealthCheck();
+    this.heartbeatOptions = { ...this.heartbeatDefaults, ...options };
+    this.subscribeSocketHealthTopic();
+    this.pendingPings.clear();
+    this.missedBeats = 0;
+    this.timerInterval = setInterval(() => this.validateToken(), this.heartbeatOptions.interval);
     console.log('Health check started.');
   }
 
+  /**
+   * Gets the health check latency and missed replies.
+   * @returns The heartbeat statistics.
+   */
+  getHeartbeatStats(): HeartbeatStats {
+    const latency = this.latencies[this.latencies.length - 1];
+    const averageLatency = this.latencies.length > 0
+      ? Math.round(this.latencies.reduce((sum, value) => sum + value, 0) / this.latencies.length)
+      : undefined;
+    return { latency, averageLatency, missed: this.missedBeats, lastReplyAt: this.lastReplyAt };
+  }
+
   /**
    * Validates the token by sending a health check message.
-   * @param socketService - The instance of the SocketService.
+   * Counts the previous health check as missed if it was not answered.
    */
-  private validateToken(socketService: SocketService): void {
-    try {
-      socketService.send(
-        `/app/healthCheck`, 
-        {
-          'Access-Control-Allow-Origin': '*',
-          timestamp: new Date().getTime().toString(),
-          token: socketService.token,
-          socketId: socketService.socketId,
-        }
-      );
-    } catch (error) {
-      // console.warn('validateToken: Socket service instance is null.');
+  private validateToken(): void {
+    if (this.state !== ConnectionState.CONNECTED) {
+      return;
+    }
+    if (this.pendingPings.size > 0) {
+      this.missBeat();
+    }
+    if (this.state !== ConnectionState.CONNECTED) {
+      return;
+    }
+    const pingId = generateId();
+    const timestamp = Date.now().toString();
+    this.send(
+      `/app/healthCheck`,
+      () => ({
+        'Access-Control-Allow-Origin': '*',
+        timestamp,
+        pingId,
+        token: this.token,
+        socketId: this.socketId,
+      }),
+      undefined,
+      { ttl: this.heartbeatOptions.interval }
+    );
+    this.pendingPings.set(pingId, { timestamp, sentAt: Date.now() });
+  }
+
+  /**
+   * Records a missed health check reply, emitting `connectionDegraded` and `connectionLost` when the thresholds are reached.
+   * The socket is reopened when the connection is lost, so the reconnection logic takes over.
+   */
+  private missBeat() {
+    this.missedBeats++;
+    // Only the last health checks can still be answered
+    const pings = Array.from(this.pendingPings.keys());
+    pings.slice(0, Math.max(0, pings.length - this.heartbeatOptions.lostAfter)).forEach((pingId) => this.pendingPings.delete(pingId));
+    const { degradedAfter, lostAfter } = this.heartbeatOptions;
+    if (this.missedBeats === degradedAfter) {
+      this.events.emit('connectionDegraded', this.getHeartbeatStats());
+    }
+    if (this.missedBeats === lostAfter) {
+      console.warn(`No health check reply after ${lostAfter} attempts, reopening the socket.`);
+      this.events.emit('connectionLost', this.getHeartbeatStats());
+      this.client?.forceDisconnect();
     }
   }
 
+  /**
+   * Matches a health topic reply with its health check, by ping ID or by timestamp, and records the latency.
+   * @param message - The health topic message.
+   */
+  private handleHealthReply = (message: IMessage) => {
+    let reply: { pingId?: string; timestamp?: string | number } = {};
+    try {
+      reply = JSON.parse(message.body) || {};
+    } catch {
+      // Replies without a JSON body cannot be matched
+    }
+    let pingId = reply.pingId && this.pendingPings.has(reply.pingId) ? reply.pingId : undefined;
+    if (!pingId && reply.timestamp !== undefined) {
+      pingId = Array.from(this.pendingPings.keys()).find((id) => this.pendingPings.get(id)!.timestamp === String(reply.timestamp));
+    }
+    if (!pingId) {
+      return;
+    }
+    const now = Date.now();
+    this.latencies.push(now - this.pendingPings.get(pingId)!.sentAt);
+    if (this.latencies.length > LATENCY_SAMPLES) {
+      this.latencies.shift();
+    }
+    this.pendingPings.clear();
+    this.missedBeats = 0;
+    this.lastReplyAt = now;
+    this.events.emit('heartbeat', this.getHeartbeatStats());
+  };
+
   /**
    * Sends the network status to the server.
    * @param downlinkNetworkQuality - The quality of the downlink network.
@@ -205,29 +642,51 @@ class SocketService {
    * 4: Users can communicate with each other, but not very smoothly.
    * 5: The quality is so poor that users can barely communicate.
    * 6: The network is disconnected and users cannot communicate.
+   *
+   * Updates that cannot be sent within 5 seconds are stale and dropped.
    */
   sendNetworkStatus(downlinkNetworkQuality: number, uplinkNetworkQuality: number, isLow: null | 'true'): void {
-    try {
-      this.send(
-        `/app/network`, 
-        {
-          'Access-Control-Allow-Origin': '*',
-          sessionKey: this.sessionKey,
-          token: this.token,
-          socketId: this.socketId,
-        },
-        JSON.stringify({
-          user: 'CUSTOMER',
-          sessionKey: this.sessionKey,
-          socketId: this.socketId,
-          downlinkNetworkQuality,
-          uplinkNetworkQuality,
-          ...(isLow !== null && { isLow }),
-        })
-      );
-    } catch (error) {
-      console.warn('Error sending network status:', error);
+    this.send(
+      `/app/network`, 
+      () => ({
+        'Access-Control-Allow-Origin': '*',
+        sessionKey: this.sessionKey,
+        token: this.token,
+        socketId: this.socketId,
+      }),
+      () => JSON.stringify({
+        user: 'CUSTOMER',
+        sessionKey: this.sessionKey,
+        socketId: this.socketId,
+        downlinkNetworkQuality,
+        uplinkNetworkQuality,
+        ...(isLow !== null && { isLow }),
+      }),
+      { ttl: NETWORK_STATUS_TTL }
+    );
+  }
+
+  /**
+   * Reports the local network quality, e.g. from the Agora `onNetworkQuality` callback.
+   * Sends a network status update to the server when the quality changes, at most once per `interval`
+   * unless the network becomes low or recovers, and emits `networkQualityChanged`.
+   * @param downlinkNetworkQuality - The quality of the downlink network on the Agora `QualityType` scale.
+   * @param uplinkNetworkQuality - The quality of the uplink network on the Agora `QualityType` scale.
+   */
+  reportNetworkQuality(downlinkNetworkQuality: number, uplinkNetworkQuality: number): void {
+    if (!this.client) {
+      console.error('STOMP client is not initialized.');
+      return;
     }
+    this.networkQuality.report(downlinkNetworkQuality, uplinkNetworkQuality);
+  }
+
+  /**
+   * Gets the latest network quality reported by `reportNetworkQuality`.
+   * @returns The network quality, or `undefined` if nothing was reported yet.
+   */
+  getNetworkQuality() {
+    return this.networkQuality.get();
   }
 
   /**
@@ -253,14 +712,20 @@ class SocketService {
     this.client.onUnhandledMessage = onUnhandledMessage;
     this.client.onUnhandledReceipt = onUnhandledReceipt;
     this.client.onUnhandledFrame = onUnhandledFrame;
-    this.client.beforeConnect = beforeConnect;
+    this.client.beforeConnect = async (client) => {
+      await this.updateConnectHeaders();
+      await beforeConnect(client);
+    };
     this.client.onConnect = (frame) => {
-      this.setSocketId();
+      this.handleConnect();
       onConnect(frame);
     };
     this.client.onDisconnect = onDisconnect;
     this.client.onStompError = onStompError;
-    this.client.onWebSocketClose = onWebSocketClose;
+    this.client.onWebSocketClose = (event) => {
+      this.handleWebSocketClose();
+      onWebSocketClose(event);
+    };
     this.client.onWebSocketError = onWebSocketError;
     this.client.onChangeState = onChangeState;
   }
@@ -324,12 +789,9 @@ class SocketService {
       console.error('STOMP client is already connected.');
       return;
     }
-    const socketHeaders: StompHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      token: this.token,
-      deviceInfo: JSON.stringify(deviceInfo),
-    };
-    this.client.connectHeaders = socketHeaders;
+    this.deviceInfo = deviceInfo;
+    this.reconnectAttempts = 0;
+    this.setState(ConnectionState.CONNECTING);
     this.client.activate();
   }
 
@@ -343,6 +805,7 @@ class SocketService {
       return;
     }
     await this.client.deactivate();
+    this.setState(ConnectionState.DISCONNECTED);
   }
 
   /**
@@ -356,25 +819,30 @@ class SocketService {
     this.client.onUnhandledMessage = () => {};
     this.client.onUnhandledReceipt = () => {};
     this.client.onUnhandledFrame = () => {};
-    this.client.beforeConnect = () => {};
-    this.client.onConnect = () => {};
+    this.client.beforeConnect = () => this.updateConnectHeaders();
+    this.client.onConnect = () => this.handleConnect();
     this.client.onDisconnect = () => {};
     this.client.onStompError = () => {};
-    this.client.onWebSocketClose = () => {};
+    this.client.onWebSocketClose = () => this.handleWebSocketClose();
     this.client.onWebSocketError = () => {};
     this.client.onChangeState = () => {};
   }
 
   /**
-   * Unsubscribes from a specific topic.
-   * @param topic - The topic to unsubscribe from.
+   * Unsubscribes every handler from a specific topic. It is no longer replayed on reconnect.
+   * @param topic - The topic to unsubscribe from, or its key such as `/user/{socketId}/notify`.
    */
   unsubscribe(topic: string): void {
     if (!this.client) {
       console.error('STOMP client is not initialized.');
       return;
     }
-    this.client.unsubscribe(topic);
+    this.subscriptions.forEach((entry, key) => {
+      if (key === topic || entry.topic === topic) {
+        this.subscriptions.delete(key);
+        this.unsubscribeTopic(entry);
+      }
+    });
   }
 
   /**
@@ -385,14 +853,15 @@ class SocketService {
       console.error('STOMP client is not initialized.');
       return;
     }
-    this.unsubscribe(`/user/${this.sessionKey}/notify`);
-    this.unsubscribe(`/user/${this.socketId}/notify`);
-    this.unsubscribe(`/user/${this.socketId}/health`);
-    this.unsubscribe(`/app/live`);
+    this.unsubscribe('/user/{sessionKey}/notify');
+    this.unsubscribe('/user/{socketId}/notify');
+    this.unsubscribe('/user/{socketId}/health');
+    this.unsubscribe('/app/live');
   }
 
   /**
-   * Cleans up the STOMP client instance by clearing health checks, disconnecting, and unregistering handlers.
+   * Cleans up the STOMP client instance by clearing health checks, unsubscribing from every topic, disconnecting, and unregistering handlers.
+   * Listeners registered with `on` stay registered for the next `initialize`.
    * @returns A promise that resolves when cleanup is complete.
    */
   async cleanup(): Promise<void> {
@@ -401,9 +870,18 @@ class SocketService {
       return;
     }
     this.clearHealthCheck();
+    this.subscriptions.forEach((entry) => this.unsubscribeTopic(entry));
+    this.subscriptions.clear();
     await this.disconnect();
+    this.outbox.clear();
+    this.networkQuality.reset();
     this.unregisterEventHandler();
-    this.unsubscribeTopics();
+    this.reconnectAttempts = 0;
+    this.pendingPings.clear();
+    this.latencies = [];
+    this.missedBeats = 0;
+    this.lastReplyAt = undefined;
+    this.tokenProvider = undefined;
     this.client = undefined;
     this.socket = undefined;
   }
@@ -416,3 +894,6 @@ class SocketService {
 export function createSocketService() {
   return new SocketService();
 }
+
+// Export for external use
+export type { SocketService };
@@ -0,0 +1,107 @@
+import { IStompSocket } from '@stomp/stompjs';
+import type SockJS from 'sockjs-client';
+import { VpageConfigError } from '../errors';
+
+/**
+ * Opens the socket the STOMP client talks through.
+ *
+ * The socket ID is generated by `SocketService` for every (re)connect and must be used as the session ID
+ * the server sees, since the server addresses the client on `/user/{socketId}/...`.
+ */
+export type SocketTransport = {
+  /**
+   * Opens a new socket. A closed socket cannot be reopened, so this is called on every (re)connect.
+   * @param url - The URL of the socket endpoint, e.g. `https://host/ws`.
+   * @param socketId - The session ID to open the socket with.
+   */
+  connect(url: string, socketId: string): IStompSocket;
+};
+
+export type SockJSTransportOptions = {
+  /** Time to establish the connection in milliseconds, before falling back to the next transport. Default is 30000. */
+  timeout?: number;
+  /** Allowed SockJS transports, e.g. `['websocket', 'xhr-streaming']`. Default is every transport. */
+  transports?: string[];
+};
+
+export type WebSocketTransportOptions = {
+  /**
+   * Builds the WebSocket URL of a connection.
+   * Default is the raw WebSocket URL of the SockJS endpoint, `{url}/{server}/{socketId}/websocket`, with a `ws` or `wss` scheme.
+   */
+  buildURL?: (url: string, socketId: string) => string;
+  /** STOMP subprotocols offered to the server. Default is `v12.stomp`, `v11.stomp` and `v10.stomp`. */
+  protocols?: string[];
+};
+
+/**
+ * Picks a random SockJS server ID, a three-digit number spreading connections across server instances.
+ * @returns The server ID.
+ */
+function randomServerId() {
+  return Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+}
+
+/**
+ * Loads sockjs-client, an optional peer dependency.
+ * @returns The SockJS constructor, or `undefined` if it is not installed.
+ */
+function loadSockJS(): typeof SockJS | undefined {
+  try {
+    return require('sockjs-client');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Creates a transport opening SockJS sockets, which fall back to HTTP streaming or polling when WebSockets are blocked.
+ * The socket ID is passed as the SockJS session ID, so it is the same whichever transport SockJS picks.
+ * @param options - (Optional) SockJS options.
+ * @returns The transport.
+ * @throws {VpageConfigError} If sockjs-client is not installed.
+ */
+export function createSockJSTransport(options: SockJSTransportOptions = {}): SocketTransport {
+  const SockJSClient = loadSockJS();
+  if (!SockJSClient) {
+    throw new VpageConfigError('sockjs-client is not installed. Install it, or use createWebSocketTransport().');
+  }
+  return {
+    connect(url, socketId) {
+      return new SockJSClient(url, null, {
+        timeout: options.timeout ?? 30000,
+        transports: options.transports,
+        sessionId: () => socketId,
+      }) as IStompSocket;
+    },
+  };
+}
+
+/**
+ * Creates a transport opening native WebSockets, without the SockJS dependency.
+ * By default it connects to the raw WebSocket URL that Spring exposes on SockJS endpoints, which carries the socket ID.
+ * @param options - (Optional) WebSocket options.
+ * @returns The transport.
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions = {}): SocketTransport {
+  const buildURL = options.buildURL
+    || ((url: string, socketId: string) => `${url.replace(/^http/, 'ws')}/${randomServerId()}/${socketId}/websocket`);
+  const protocols = options.protocols || ['v12.stomp', 'v11.stomp', 'v10.stomp'];
+  return {
+    connect(url, socketId) {
+      return new WebSocket(buildURL(url, socketId), protocols) as IStompSocket;
+    },
+  };
+}
+
+/**
+ * Creates the default transport: SockJS when sockjs-client is installed, native WebSockets otherwise.
+ * @returns The transport.
+ */
+export function createDefaultTransport(): SocketTransport {
+  if (loadSockJS()) {
+    return createSockJSTransport();
+  }
+  console.warn('sockjs-client not available, falling back to native WebSockets.');
+  return createWebSocketTransport();
+}